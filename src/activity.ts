@@ -0,0 +1,118 @@
+/**
+ * Activity signals: how recently a repository was pushed to, how much its
+ * workflows run and how many people watch it, combined into an activity score
+ * and a dormant flag
+ */
+
+import {
+  ActivityAssessment,
+  AnalysisConfig,
+  NormalizedRepository,
+} from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Points for the recency of the last activity: the first tier whose day limit
+ * is not exceeded, none beyond the last tier
+ */
+const RECENCY_TIERS = [
+  { maxDays: 30, points: 60 },
+  { maxDays: 90, points: 45 },
+  { maxDays: 180, points: 30 },
+  { maxDays: 365, points: 15 },
+];
+
+/**
+ * Largest points for workflow runs, reached at 1,000 runs
+ */
+const WORKFLOW_RUN_POINTS = 25;
+
+/**
+ * Largest points for watchers, reached at 100 watchers
+ */
+const WATCHER_POINTS = 15;
+
+/**
+ * Points for a count on a log10 scale, capped at the count where they reach
+ * their maximum
+ */
+function logPoints(count: number, fullAt: number, maxPoints: number): number {
+  return maxPoints * Math.min(1, Math.log10(count + 1) / Math.log10(fullAt));
+}
+
+/**
+ * Date activity is measured at: ACTIVITY.AS_OF, or today
+ * @returns Milliseconds since the epoch at midnight UTC
+ */
+export function activityReferenceTime(config: AnalysisConfig): number {
+  return Date.parse(
+    config.ACTIVITY.AS_OF ?? new Date().toISOString().slice(0, 10)
+  );
+}
+
+/**
+ * Assess the activity of a repository. Without a push or creation date the
+ * score is scaled from workflow runs and watchers alone, and the repository
+ * is never dormant.
+ * @param referenceTime - Date activity is measured at (see
+ * activityReferenceTime)
+ */
+export function assessActivity(
+  repo: NormalizedRepository,
+  config: AnalysisConfig,
+  referenceTime: number
+): ActivityAssessment {
+  const usagePoints =
+    logPoints(
+      repo["repository-actions-workflow-runs"],
+      1000,
+      WORKFLOW_RUN_POINTS
+    ) + logPoints(repo.watchers, 100, WATCHER_POINTS);
+
+  const lastActivity = repo.activity.lastPush ?? repo.activity.created;
+  if (lastActivity === undefined) {
+    return {
+      activityScore: Math.round(
+        (usagePoints * 100) / (WORKFLOW_RUN_POINTS + WATCHER_POINTS)
+      ),
+      dormant: false,
+    };
+  }
+
+  const daysInactive = Math.max(
+    0,
+    Math.floor((referenceTime - Date.parse(lastActivity)) / DAY_MS)
+  );
+  const recencyPoints =
+    RECENCY_TIERS.find((tier) => daysInactive <= tier.maxDays)?.points ?? 0;
+
+  return {
+    lastActivity,
+    daysInactive,
+    activityScore: Math.round(recencyPoints + usagePoints),
+    dormant: daysInactive >= config.ACTIVITY.DORMANT_AFTER_DAYS,
+  };
+}
+
+/**
+ * Describe an activity assessment, e.g.
+ * "last activity 2021-03-04 (1,320 days ago), activity score 12, dormant"
+ */
+export function describeActivity(activity: ActivityAssessment): string {
+  const parts: string[] = [];
+  if (activity.lastActivity !== undefined) {
+    parts.push(
+      `last activity ${
+        activity.lastActivity
+      } (${activity.daysInactive?.toLocaleString("en-US")} days ago)`
+    );
+  } else {
+    parts.push("no activity dates");
+  }
+  parts.push(`activity score ${activity.activityScore}`);
+  if (activity.dormant) {
+    parts.push("dormant");
+  }
+  return parts.join(", ");
+}
@@ -0,0 +1,236 @@
+/**
+ * Input adapters: the supported inventory formats, detected from the header
+ * row of each input file and mapped into the current repository model
+ */
+
+import { AllAnalysisDetails } from "./archived/types.js";
+import { RepositoryAnalysis } from "./types.js";
+import {
+  ACTIVITY_COLUMNS,
+  RowNormalizer,
+  normalizeActivityDates,
+  normalizeLegacyFields,
+  normalizeRepository,
+} from "./normalize.js";
+
+/**
+ * Every column of the repository_analysis_all.csv file, keyed so the compiler
+ * checks the list against the RepositoryAnalysis interface
+ */
+const COLUMN_KEYS: Record<keyof RepositoryAnalysis, true> = {
+  Enterprise: true,
+  Org_Name: true,
+  Repo_Name: true,
+  isArchived: true,
+  has_external_collaborators: true,
+  issues_linked_to_projects: true,
+  unique_projects_linked_by_issues: true,
+  projects_linked_to_repo: true,
+  app_installations: true,
+  "repository-custom-properties": true,
+  "repository-forks": true,
+  "repository-rulesets": true,
+  watchers: true,
+  "repository-code-scanning-analyses": true,
+  "repository-webhooks": true,
+  "repository-code-scanning-alerts": true,
+  "repository-secret-scanning-alerts": true,
+  "repository-actions-workflow-runs": true,
+  "repository-code-scanning-default-setup": true,
+  "repository-dependabot-alerts": true,
+  "repository-packages": true,
+  "repository-releases-gt-5gb": true,
+  "repository-disk-usage": true,
+  "repository-deployments": true,
+  "repository-environments": true,
+  "git-lfs-objects": true,
+  "repository-actions-secrets": true,
+  "repository-actions-self-hosted-runners": true,
+  "repository-dependabot-secrets": true,
+  "repository-actions-variables": true,
+  "git-submodules": true,
+  "repository-discussions": true,
+  "repository-deploy-keys": true,
+  "repository-pages-customdomain": true,
+  "repository-pinned-issues": true,
+  has_unmigratable: true,
+  has_maven_packages: true,
+  maven_package_count: true,
+  has_codespaces: true,
+  codespace_count: true,
+  codespace_user_count: true,
+  has_macos_runners: true,
+};
+
+/**
+ * Ordered list of the columns expected in repository_analysis_all.csv
+ */
+export const REPOSITORY_ANALYSIS_COLUMNS = Object.keys(
+  COLUMN_KEYS
+) as (keyof RepositoryAnalysis)[];
+
+/**
+ * Every column of the legacy ghec-analysis.csv file, keyed so the compiler
+ * checks the list against the AllAnalysisDetails interface
+ */
+const GHEC_ANALYSIS_COLUMN_KEYS: Record<keyof AllAnalysisDetails, true> = {
+  Org_Name: true,
+  Repo_Name: true,
+  Is_Empty: true,
+  Last_Push: true,
+  Last_Update: true,
+  isFork: true,
+  isArchived: true,
+  Repo_Size_mb: true,
+  Record_Count: true,
+  Collaborator_Count: true,
+  Protected_Branch_Count: true,
+  PR_Review_Count: true,
+  Milestone_Count: true,
+  Issue_Count: true,
+  PR_Count: true,
+  PR_Review_Comment_Count: true,
+  Commit_Comment_Count: true,
+  Issue_Comment_Count: true,
+  Issue_Event_Count: true,
+  Release_Count: true,
+  Project_Count: true,
+  Branch_Count: true,
+  Tag_Count: true,
+  Discussion_Count: true,
+  Has_Wiki: true,
+  Full_URL: true,
+  Migration_Issue: true,
+  Created: true,
+  issues_linked_to_projects: true,
+  unique_projects_linked_by_issues: true,
+  projects_linked_to_repo: true,
+  app_installations: true,
+  "repository-custom-properties": true,
+  "repository-forks": true,
+  "repository-rulesets": true,
+  watchers: true,
+  "repository-code-scanning-analyses": true,
+  "repository-webhooks": true,
+  "repository-code-scanning-alerts": true,
+  "repository-secret-scanning-alerts": true,
+  "repository-actions-workflow-runs": true,
+  "repository-code-scanning-default-setup": true,
+  "repository-dependabot-alerts": true,
+  "repository-packages": true,
+  "repository-releases": true,
+  "repository-disk-usage": true,
+  "repository-deployments": true,
+  "repository-environments": true,
+  "git-lfs-objects": true,
+  "repository-actions-secrets": true,
+  "repository-actions-self-hosted-runners": true,
+  "repository-dependabot-secrets": true,
+  "repository-actions-variables": true,
+  "git-submodules": true,
+  "repository-discussions": true,
+  "repository-deploy-keys": true,
+  "repository-pages-customdomain": true,
+  "repository-pinned-issues": true,
+};
+
+/**
+ * Ordered list of the columns expected in ghec-analysis.csv
+ */
+export const GHEC_ANALYSIS_COLUMNS = Object.keys(
+  GHEC_ANALYSIS_COLUMN_KEYS
+) as (keyof AllAnalysisDetails)[];
+
+/**
+ * Interface for an input format adapter
+ */
+export interface InputAdapter {
+  // Format name shown in logs
+  name: string;
+  // Columns of the format, used for detection and header validation
+  columns: readonly string[];
+  // Columns read when present, neither required nor reported as unexpected
+  optionalColumns: readonly string[];
+  normalize: RowNormalizer;
+}
+
+/**
+ * Map a legacy ghec-analysis row to the current inventory columns. Columns the
+ * legacy export does not have are left empty and read as 0 or false.
+ */
+function ghecAnalysisToRepositoryAnalysis(
+  raw: Record<string, string>
+): RepositoryAnalysis {
+  return Object.fromEntries(
+    REPOSITORY_ANALYSIS_COLUMNS.map((column) => [column, raw[column] ?? ""])
+  ) as unknown as RepositoryAnalysis;
+}
+
+/**
+ * Supported input formats; the first is the current format and wins when
+ * detection is inconclusive
+ */
+export const INPUT_ADAPTERS: InputAdapter[] = [
+  {
+    name: "repository-analysis",
+    columns: REPOSITORY_ANALYSIS_COLUMNS,
+    optionalColumns: ACTIVITY_COLUMNS,
+    normalize: (raw, source, diagnostics) => ({
+      ...normalizeRepository(
+        raw as unknown as RepositoryAnalysis,
+        source,
+        diagnostics
+      ),
+      activity: normalizeActivityDates(raw, source, diagnostics),
+    }),
+  },
+  {
+    name: "ghec-analysis",
+    columns: GHEC_ANALYSIS_COLUMNS,
+    optionalColumns: [],
+    normalize: (raw, source, diagnostics) => {
+      const repository = normalizeRepository(
+        ghecAnalysisToRepositoryAnalysis(raw),
+        source,
+        diagnostics
+      );
+      const legacy = normalizeLegacyFields(raw, source, diagnostics);
+      // The legacy export flags repositories with migration issues
+      return {
+        ...repository,
+        has_unmigratable: legacy.Migration_Issue,
+        legacy,
+        activity: normalizeActivityDates(raw, source, diagnostics),
+      };
+    },
+  },
+];
+
+/**
+ * Detect the format of an input file from its header row: the adapter with
+ * the largest share of its distinctive columns (those no other format has)
+ * present in the headers
+ */
+export function detectInputAdapter(headers: string[]): InputAdapter {
+  const present = new Set(headers);
+  let detected = INPUT_ADAPTERS[0]!;
+  let bestShare = 0;
+
+  for (const adapter of INPUT_ADAPTERS) {
+    const distinctive = adapter.columns.filter(
+      (column) =>
+        !INPUT_ADAPTERS.some(
+          (other) => other !== adapter && other.columns.includes(column)
+        )
+    );
+    const share =
+      distinctive.filter((column) => present.has(column)).length /
+      Math.max(1, distinctive.length);
+    if (share > bestShare) {
+      detected = adapter;
+      bestShare = share;
+    }
+  }
+
+  return detected;
+}
@@ -0,0 +1,183 @@
+/**
+ * Running aggregates for cohort, tag and enterprise summaries, so summaries
+ * can be built one result at a time without keeping the results in memory
+ */
+
+import {
+  CohortResult,
+  CohortSummary,
+  EnterpriseCohortSummary,
+} from "./types.js";
+
+/**
+ * Running totals for a group of results
+ */
+interface ScoreTotals {
+  count: number;
+  totalWeight: number;
+  totalComplexity: number;
+  totalGap: number;
+}
+
+/**
+ * Running totals per cohort label
+ */
+type CohortTotals = Map<string, ScoreTotals>;
+
+/**
+ * Running totals for one enterprise
+ */
+interface EnterpriseTotals {
+  totals: ScoreTotals;
+  cohorts: CohortTotals;
+  tags: CohortTotals;
+}
+
+/**
+ * Running aggregates behind the cohort, tag and enterprise summaries
+ */
+export interface SummaryAggregates {
+  cohorts: CohortTotals;
+  tags: CohortTotals;
+  enterprises: Map<string, EnterpriseTotals>;
+}
+
+/**
+ * Create empty summary aggregates
+ */
+export function createSummaryAggregates(): SummaryAggregates {
+  return { cohorts: new Map(), tags: new Map(), enterprises: new Map() };
+}
+
+/**
+ * Create empty running totals
+ */
+function emptyTotals(): ScoreTotals {
+  return { count: 0, totalWeight: 0, totalComplexity: 0, totalGap: 0 };
+}
+
+/**
+ * Add a result to running totals
+ */
+function addToTotals(totals: ScoreTotals, result: CohortResult): void {
+  totals.count += 1;
+  totals.totalWeight += result.migrationWeight;
+  totals.totalComplexity += result.complexityScore;
+  totals.totalGap += result.gapScore;
+}
+
+/**
+ * Add a result to the totals of each of its cohort labels
+ */
+function addToCohortTotals(
+  cohorts: CohortTotals,
+  labels: string[],
+  result: CohortResult
+): void {
+  for (const label of labels) {
+    if (!cohorts.has(label)) {
+      cohorts.set(label, emptyTotals());
+    }
+    addToTotals(cohorts.get(label)!, result);
+  }
+}
+
+/**
+ * Add a result to the summary aggregates
+ */
+export function addToAggregates(
+  aggregates: SummaryAggregates,
+  result: CohortResult
+): void {
+  const tags = [result.cohort, ...result.secondaryCohorts];
+  addToCohortTotals(aggregates.cohorts, [result.cohort], result);
+  addToCohortTotals(aggregates.tags, tags, result);
+
+  const enterpriseName = result.enterpriseName || "Unknown";
+  if (!aggregates.enterprises.has(enterpriseName)) {
+    aggregates.enterprises.set(enterpriseName, {
+      totals: emptyTotals(),
+      cohorts: new Map(),
+      tags: new Map(),
+    });
+  }
+  const enterprise = aggregates.enterprises.get(enterpriseName)!;
+  addToTotals(enterprise.totals, result);
+  addToCohortTotals(enterprise.cohorts, [result.cohort], result);
+  addToCohortTotals(enterprise.tags, tags, result);
+}
+
+/**
+ * Average the weight and scores of running totals
+ */
+function averageTotals(totals: ScoreTotals): {
+  averageWeight: number;
+  averageComplexityScore: number;
+  averageGapScore: number;
+} {
+  const count = totals.count;
+  return {
+    averageWeight: count > 0 ? totals.totalWeight / count : 0,
+    averageComplexityScore: count > 0 ? totals.totalComplexity / count : 0,
+    averageGapScore: count > 0 ? totals.totalGap / count : 0,
+  };
+}
+
+/**
+ * Build cohort summaries from running totals
+ */
+function summarizeTotals(cohorts: CohortTotals): CohortSummary[] {
+  const summaries: CohortSummary[] = [];
+
+  for (const [cohortName, totals] of cohorts) {
+    summaries.push({
+      cohortName,
+      repositoryCount: totals.count,
+      totalWeight: totals.totalWeight,
+      ...averageTotals(totals),
+    });
+  }
+
+  // Sort by average weight descending (most complex first)
+  return summaries.sort((a, b) => b.averageWeight - a.averageWeight);
+}
+
+/**
+ * Summarize each primary cohort
+ */
+export function summarizeCohorts(
+  aggregates: SummaryAggregates
+): CohortSummary[] {
+  return summarizeTotals(aggregates.cohorts);
+}
+
+/**
+ * Summarize each cohort tag (primary and secondary cohorts)
+ */
+export function summarizeTags(aggregates: SummaryAggregates): CohortSummary[] {
+  return summarizeTotals(aggregates.tags);
+}
+
+/**
+ * Summarize each enterprise, sorted by enterprise name
+ */
+export function summarizeEnterprises(
+  aggregates: SummaryAggregates
+): EnterpriseCohortSummary[] {
+  const summaries: EnterpriseCohortSummary[] = [];
+
+  for (const [enterpriseName, enterprise] of aggregates.enterprises) {
+    summaries.push({
+      enterpriseName,
+      cohortSummaries: summarizeTotals(enterprise.cohorts),
+      tagSummaries: summarizeTotals(enterprise.tags),
+      totalRepositories: enterprise.totals.count,
+      totalWeight: enterprise.totals.totalWeight,
+      ...averageTotals(enterprise.totals),
+    });
+  }
+
+  return summaries.sort((a, b) =>
+    a.enterpriseName.localeCompare(b.enterpriseName)
+  );
+}
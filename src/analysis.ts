@@ -1,839 +1,1608 @@
-import { writeFileSync } from "fs";
-import { LoadedData } from "./data.js";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LoadedData, loadedDataRows } from "./data.js";
+import { DEFAULT_CONFIG } from "./config.js";
 import {
-  RepositoryAnalysis,
+  DIAGNOSTIC_CSV_HEADERS,
+  NormalizedRow,
+  addDiagnosticCount,
+  formatDiagnosticColumnTable,
+  formatDiagnosticCsvRow,
+  formatDiagnosticSummary,
+  isUnparsed,
+  sortDiagnosticCounts,
+} from "./normalize.js";
+import {
+  DataQualityAudit,
+  auditMergedRow,
+  countAuditFindings,
+  createAudit,
+  formatAuditCheckTable,
+  formatAuditConsole,
+  formatAuditCsv,
+  formatAuditExampleTable,
+  formatAuditJson,
+  summarizeAudit,
+} from "./audit.js";
+import {
+  REPORT_JSON_SCHEMA,
+  REPORT_SCHEMA_FILE,
+  ReportRunInfo,
+  ReportSections,
+  createReportMetadata,
+  formatReportJson,
+} from "./report.js";
+import { formatHtmlReport, formatHtmlRepositoryRow } from "./html.js";
+import {
+  OutputOptions,
+  ReportKind,
+  createOutputPlan,
+  emitsReport,
+  outputPath,
+} from "./output.js";
+import {
+  CsvCell,
+  CsvFormat,
+  DEFAULT_CSV_FORMAT,
+  csvFormat,
+  formatCsvBanner,
+  formatCsvHeader,
+  formatCsvRow,
+  formatCsvTable,
+  writeCsvFile,
+} from "./csv.js";
+import {
+  COHORT_SHEET_HEADERS,
+  ENTERPRISE_SHEET_HEADERS,
+  XlsxCell,
+  formatCohortSheetLine,
+  formatEnterpriseSheetLine,
+  groupedSheets,
+  summarySheets,
+  writeXlsxWorkbook,
+} from "./xlsx.js";
+import {
+  addToTopRepositories,
+  createTopRepositories,
+  formatMarkdownReport,
+  formatMarkdownRepositoryLine,
+} from "./markdown.js";
+import {
+  MERGE_REPORT_CSV_HEADERS,
+  MergeFileCounts,
+  addMergeCounts,
+  formatMergeFileTable,
+  formatMergeReportCsvRow,
+  formatMergeSummary,
+  repositorySources,
+} from "./merge.js";
+import {
+  SummaryAggregates,
+  addToAggregates,
+  createSummaryAggregates,
+  summarizeCohorts,
+  summarizeEnterprises,
+  summarizeTags,
+} from "./aggregates.js";
+import {
+  SortedSpool,
+  SpoolKey,
+  addToSpool,
+  compareKeys,
+  createSpool,
+  drainSpool,
+  writeStreamedFile,
+} from "./stream.js";
+import {
+  ActivityAssessment,
+  AnalysisConfig,
+  CohortRule,
+  NormalizedRepository,
+  RepositoryScores,
+  ScoreAxis,
   CohortDetail,
+  WeightContribution,
   CohortResult,
   CohortSummary,
   EnterpriseCohortSummary,
 } from "./types.js";
+import {
+  FEATURE_REGISTRY,
+  FeatureFlags,
+  describeFeatureValues,
+  featureFlagName,
+} from "./features.js";
+import {
+  formatFeatureReason,
+  isFeatureEnabled,
+  roundPoints,
+  scoreFeature,
+} from "./scoring.js";
+import { activityReferenceTime, assessActivity } from "./activity.js";
+import {
+  UNASSIGNED_COHORT,
+  getCohortRules,
+  matchCohortRule,
+  matchCohortTags,
+  renderSummary,
+} from "./rules.js";
 
 // =============================================================================
-// CONFIGURATION SETTINGS
+// UTILITY FUNCTIONS
 // =============================================================================
 
 /**
- * Configuration for migration analysis weights and thresholds
- */
-const CONFIG = {
-  // Weight values for different migration blockers (higher = more complex)
-  WEIGHTS: {
-    APP_INSTALLATIONS: 10,
-    GIT_LFS_OBJECTS: 1, // IGNORE - this is covered now and shouldn't be part of the weight
-    PACKAGES: 9,
-    PROJECTS: 7,
-    CUSTOM_PROPERTIES: 1, // IGNORE - this is covered now and shouldn't be part of the weight
-    RULESETS: 1, // IGNORE - this is covered now and shouldn't be part of the weight
-    SECRETS: 5,
-    ENVIRONMENTS: 4,
-    SELF_HOSTED_RUNNERS: 8,
-    WEBHOOKS: 3,
-    DISCUSSIONS: 2,
-    DEPLOY_KEYS: 3,
-    PAGES_CUSTOM_DOMAIN: 2,
-    RELEASES_LARGE: 7,
-    CODESPACES: 6,
-    MAVEN_PACKAGES: 8,
-    MACOS_RUNNERS: 9,
-    IS_ARCHIVED: 5,
-    EXTERNAL_COLLABORATORS: 3,
-    UNMIGRATABLE: 15, // Highest weight for unmigratable repos
-  },
-
-  // Thresholds for cohort assignment
-  THRESHOLDS: {
-    CLEAN_REPO_MAX_WEIGHT: 0,
-    LOW_COMPLEXITY_MAX_WEIGHT: 10,
-    MEDIUM_COMPLEXITY_MAX_WEIGHT: 25,
-  },
-
-  // Enable/disable specific analysis features
-  FEATURES: {
-    INCLUDE_ARCHIVED_IN_MAIN_ANALYSIS: false,
-    SEPARATE_MAVEN_COHORT: true,
-    SEPARATE_CODESPACE_COHORT: true,
-    SEPARATE_MACOS_COHORT: true,
-    SEPARATE_UNMIGRATABLE_COHORT: false, // Temporarily disabled to see other cohorts
-  },
-};
+ * Calculate the weight each present migration feature contributes
+ */
+export function calculateWeightBreakdown(
+  repo: NormalizedRepository,
+  config: AnalysisConfig
+): WeightContribution[] {
+  const breakdown: WeightContribution[] = [];
+
+  for (const feature of FEATURE_REGISTRY) {
+    const score = scoreFeature(feature, repo, config);
+    if (score) {
+      breakdown.push({
+        feature: feature.key,
+        rawValue: describeFeatureValues(feature, repo),
+        units: score.units,
+        rule: score.rule,
+        points: score.points,
+        axis: feature.featureGap ? "gap" : "complexity",
+      });
+    }
+  }
 
-// =============================================================================
-// UTILITY FUNCTIONS
-// =============================================================================
+  return breakdown;
+}
 
 /**
- * Check if a repository is archived
+ * Sum the points of a weight breakdown, optionally limited to one axis
  */
-function isArchived(repo: RepositoryAnalysis): boolean {
-  return (
-    repo.isArchived === "true" ||
-    repo.isArchived === "TRUE" ||
-    repo.isArchived === "1"
+function sumPoints(breakdown: WeightContribution[], axis?: ScoreAxis): number {
+  return roundPoints(
+    breakdown
+      .filter((contribution) => !axis || contribution.axis === axis)
+      .reduce((sum, contribution) => sum + contribution.points, 0)
   );
 }
 
 /**
- * Convert string values to numbers (handle empty strings and non-numeric values)
+ * Calculate migration weight and the complexity and gap scores from a
+ * repository's weight breakdown, alongside its activity
  */
-function toNumber(value: string): number {
-  if (
-    !value ||
-    value.trim() === "" ||
-    value === "null" ||
-    value === "undefined"
-  ) {
-    return 0;
-  }
-  const num = parseInt(value, 10);
-  return isNaN(num) ? 0 : num;
+export function calculateScores(
+  breakdown: WeightContribution[],
+  activity: ActivityAssessment
+): RepositoryScores {
+  return {
+    migrationWeight: sumPoints(breakdown),
+    complexityScore: sumPoints(breakdown, "complexity"),
+    gapScore: sumPoints(breakdown, "gap"),
+    activityScore: activity.activityScore,
+    dormant: activity.dormant,
+  };
 }
 
 /**
- * Convert string boolean values to boolean
+ * Format a weight breakdown as a single line, e.g. "WEBHOOKS +3 (flat)"
  */
-function toBoolean(value: string): boolean {
-  return (
-    value === "true" ||
-    value === "TRUE" ||
-    value === "1" ||
-    value === "yes" ||
-    value === "YES"
-  );
+function formatWeightBreakdown(breakdown: WeightContribution[]): string {
+  return breakdown
+    .map(
+      (contribution) =>
+        `${contribution.feature} +${contribution.points} (${contribution.rule})`
+    )
+    .join("; ");
 }
 
 /**
- * Calculate migration weight based on repository features
+ * Get detailed reasons for migration complexity
  */
-function calculateMigrationWeight(repo: RepositoryAnalysis): number {
-  let weight = 0;
-
-  // Check each migration blocker and add appropriate weight
-  if (toNumber(repo.app_installations) > 0) {
-    weight += CONFIG.WEIGHTS.APP_INSTALLATIONS;
-  }
-
-  if (toNumber(repo["git-lfs-objects"]) > 0) {
-    weight += CONFIG.WEIGHTS.GIT_LFS_OBJECTS;
-  }
-
-  if (toNumber(repo["repository-packages"]) > 0) {
-    weight += CONFIG.WEIGHTS.PACKAGES;
-  }
-
-  if (
-    toNumber(repo.projects_linked_to_repo) > 0 ||
-    toNumber(repo.issues_linked_to_projects) > 0
-  ) {
-    weight += CONFIG.WEIGHTS.PROJECTS;
-  }
-
-  if (toNumber(repo["repository-custom-properties"]) > 0) {
-    weight += CONFIG.WEIGHTS.CUSTOM_PROPERTIES;
-  }
-
-  if (toNumber(repo["repository-rulesets"]) > 0) {
-    weight += CONFIG.WEIGHTS.RULESETS;
-  }
-
-  if (
-    toNumber(repo["repository-actions-secrets"]) > 0 ||
-    toNumber(repo["repository-dependabot-secrets"]) > 0
-  ) {
-    weight += CONFIG.WEIGHTS.SECRETS;
-  }
-
-  if (toNumber(repo["repository-environments"]) > 0) {
-    weight += CONFIG.WEIGHTS.ENVIRONMENTS;
-  }
-
-  if (toNumber(repo["repository-actions-self-hosted-runners"]) > 0) {
-    weight += CONFIG.WEIGHTS.SELF_HOSTED_RUNNERS;
-  }
+export function getMigrationReasons(
+  repo: NormalizedRepository,
+  config: AnalysisConfig
+): string[] {
+  const reasons: string[] = [];
 
-  if (toNumber(repo["repository-webhooks"]) > 0) {
-    weight += CONFIG.WEIGHTS.WEBHOOKS;
+  for (const feature of FEATURE_REGISTRY) {
+    const score = scoreFeature(feature, repo, config);
+    if (score) {
+      reasons.push(formatFeatureReason(feature, repo, score, config));
+    }
   }
 
-  if (toNumber(repo["repository-discussions"]) > 0) {
-    weight += CONFIG.WEIGHTS.DISCUSSIONS;
-  }
+  return reasons;
+}
 
-  if (toNumber(repo["repository-deploy-keys"]) > 0) {
-    weight += CONFIG.WEIGHTS.DEPLOY_KEYS;
-  }
+/**
+ * Determine cohort assignment by evaluating the ordered cohort rules
+ */
+function assignCohort(
+  repo: NormalizedRepository,
+  scores: RepositoryScores,
+  rules: CohortRule[]
+): CohortRule | undefined {
+  return matchCohortRule(repo, scores, rules);
+}
 
-  if (toNumber(repo["repository-pages-customdomain"]) > 0) {
-    weight += CONFIG.WEIGHTS.PAGES_CUSTOM_DOMAIN;
-  }
+// =============================================================================
+// MAIN ANALYSIS FUNCTIONS
+// =============================================================================
 
-  if (toNumber(repo["repository-releases-gt-5gb"]) > 0) {
-    weight += CONFIG.WEIGHTS.RELEASES_LARGE;
-  }
+/**
+ * Check if repository has specific feature categories (for boolean flags).
+ * Flags describe the input, so they are reported for disabled features too.
+ */
+function hasFeatureFlags(repo: NormalizedRepository): FeatureFlags {
+  return Object.fromEntries(
+    FEATURE_REGISTRY.map((feature) => [
+      featureFlagName(feature.key),
+      feature.detect(repo),
+    ])
+  ) as FeatureFlags;
+}
 
-  // Check if repository is archived
-  if (isArchived(repo)) {
-    weight += CONFIG.WEIGHTS.IS_ARCHIVED;
-  }
+/**
+ * Count feature gaps (features not supported on the target platform)
+ */
+function countFeatureGaps(
+  repo: NormalizedRepository,
+  config: AnalysisConfig
+): number {
+  return FEATURE_REGISTRY.filter(
+    (feature) =>
+      feature.featureGap &&
+      isFeatureEnabled(feature, config) &&
+      feature.detect(repo)
+  ).length;
+}
 
-  // Check for external collaborators
-  if (toBoolean(repo.has_external_collaborators)) {
-    weight += CONFIG.WEIGHTS.EXTERNAL_COLLABORATORS;
-  }
+/**
+ * Classify one repository, producing both its detailed and simplified result
+ * @param referenceTime - Date activity is measured at, the same for every
+ * repository of a run (see activityReferenceTime)
+ */
+function classifyRepository(
+  repo: NormalizedRepository,
+  config: AnalysisConfig,
+  rules: CohortRule[],
+  referenceTime: number
+): { detail: CohortDetail; result: CohortResult } {
+  const weightBreakdown = calculateWeightBreakdown(repo, config);
+  const activity = assessActivity(repo, config, referenceTime);
+  const scores = calculateScores(weightBreakdown, activity);
+  const { migrationWeight, complexityScore, gapScore } = scores;
+  const migrationReasons = getMigrationReasons(repo, config);
+  const rule = assignCohort(repo, scores, rules);
+  const cohort = rule?.name ?? UNASSIGNED_COHORT;
+  const secondaryCohorts = matchCohortTags(repo, scores, rules, cohort);
+  const summary = renderSummary(rule, migrationReasons, scores);
+  const featureFlags = hasFeatureFlags(repo);
+  const featureGapCount = countFeatureGaps(repo, config);
+
+  const detail: CohortDetail = {
+    repositoryName: repo.Repo_Name,
+    organizationName: repo.Org_Name,
+    enterpriseName: repo.Enterprise,
+    cohort,
+    secondaryCohorts,
+    cohortWeight: migrationWeight, // For backwards compatibility
+    migrationWeight,
+    complexityScore,
+    gapScore,
+    migrationReasons: migrationReasons.join("; "),
+    summary,
+    featureGapCount,
+    weightBreakdown,
+    activity,
+    ...featureFlags,
+    ...(repo.legacy && { legacy: repo.legacy }),
+  };
 
-  // Check for unmigratable features
-  if (toBoolean(repo.has_unmigratable)) {
-    weight += CONFIG.WEIGHTS.UNMIGRATABLE;
-  }
+  const result: CohortResult = {
+    repoName: repo.Repo_Name,
+    orgName: repo.Org_Name,
+    enterpriseName: repo.Enterprise,
+    cohort,
+    secondaryCohorts,
+    migrationWeight,
+    complexityScore,
+    gapScore,
+    reasons: migrationReasons,
+    summary,
+    isArchived: repo.isArchived,
+  };
 
-  return weight;
+  return { detail, result };
 }
 
 /**
- * Get detailed reasons for migration complexity
+ * Analyze repositories and generate detailed cohort data
  */
-function getMigrationReasons(repo: RepositoryAnalysis): string[] {
-  const reasons: string[] = [];
-
-  if (toNumber(repo.app_installations) > 0) {
-    reasons.push(`App installations (${repo.app_installations})`);
-  }
+export function analyzeRepositoriesDetailed(
+  data: LoadedData,
+  config: AnalysisConfig = DEFAULT_CONFIG
+): CohortDetail[] {
+  const rules = getCohortRules(config);
+  const referenceTime = activityReferenceTime(config);
+  return data.repositories.map(
+    (repo) => classifyRepository(repo, config, rules, referenceTime).detail
+  );
+}
 
-  if (toNumber(repo["git-lfs-objects"]) > 0) {
-    reasons.push(`Git LFS objects (${repo["git-lfs-objects"]})`);
-  }
+/**
+ * Analyze repositories and return simplified cohort results
+ */
+export function analyzeRepositories(
+  data: LoadedData,
+  config: AnalysisConfig = DEFAULT_CONFIG
+): CohortResult[] {
+  const rules = getCohortRules(config);
+  const referenceTime = activityReferenceTime(config);
+  return data.repositories.map(
+    (repo) => classifyRepository(repo, config, rules, referenceTime).result
+  );
+}
 
-  if (toNumber(repo["repository-packages"]) > 0) {
-    reasons.push(`Repository packages (${repo["repository-packages"]})`);
+/**
+ * Build summary aggregates from a list of results
+ */
+function aggregateResults(results: CohortResult[]): SummaryAggregates {
+  const aggregates = createSummaryAggregates();
+  for (const result of results) {
+    addToAggregates(aggregates, result);
   }
+  return aggregates;
+}
 
-  if (
-    toNumber(repo.projects_linked_to_repo) > 0 ||
-    toNumber(repo.issues_linked_to_projects) > 0
-  ) {
-    reasons.push(
-      `Projects linked (repo: ${repo.projects_linked_to_repo}, issues: ${repo.issues_linked_to_projects})`
-    );
-  }
+/**
+ * Generate summary statistics for each cohort
+ */
+export function generateCohortSummaries(
+  results: CohortResult[]
+): CohortSummary[] {
+  return summarizeCohorts(aggregateResults(results));
+}
 
-  if (toNumber(repo["repository-custom-properties"]) > 0) {
-    reasons.push(`Custom properties (${repo["repository-custom-properties"]})`);
-  }
+/**
+ * Generate summary statistics for each cohort tag, counting every repository
+ * under its primary cohort and each of its secondary cohorts
+ */
+export function generateTagSummaries(results: CohortResult[]): CohortSummary[] {
+  return summarizeTags(aggregateResults(results));
+}
 
-  if (toNumber(repo["repository-rulesets"]) > 0) {
-    reasons.push(`Rulesets (${repo["repository-rulesets"]})`);
-  }
+/**
+ * Generate enterprise-specific cohort summaries
+ */
+export function generateEnterpriseCohortSummaries(
+  results: CohortResult[]
+): EnterpriseCohortSummary[] {
+  return summarizeEnterprises(aggregateResults(results));
+}
 
-  if (
-    toNumber(repo["repository-actions-secrets"]) > 0 ||
-    toNumber(repo["repository-dependabot-secrets"]) > 0
-  ) {
-    reasons.push(
-      `Secrets (Actions: ${repo["repository-actions-secrets"]}, Dependabot: ${repo["repository-dependabot-secrets"]})`
-    );
-  }
+// =============================================================================
+// EXPORT FORMATTING
+// =============================================================================
 
-  if (toNumber(repo["repository-environments"]) > 0) {
-    reasons.push(`Environments (${repo["repository-environments"]})`);
-  }
+/**
+ * Header row of the detailed CSV export
+ */
+const DETAILED_CSV_HEADERS = [
+  "Repository Name",
+  "Organization",
+  "Enterprise",
+  "Cohort",
+  "Secondary Cohorts",
+  "Migration Weight",
+  "Complexity Score",
+  "Gap Score",
+  "Migration Reasons",
+  "Weight Breakdown",
+  "Summary",
+  "Feature Gap Count",
+  "Last Activity",
+  "Days Inactive",
+  "Activity Score",
+  "Dormant",
+  ...FEATURE_REGISTRY.map((feature) => featureFlagName(feature.key)),
+];
 
-  if (toNumber(repo["repository-actions-self-hosted-runners"]) > 0) {
-    reasons.push(
-      `Self-hosted runners (${repo["repository-actions-self-hosted-runners"]})`
-    );
-  }
+/**
+ * Header row of the repository details sections of the combined exports
+ */
+const RESULT_CSV_HEADERS = [
+  "Repository Name",
+  "Organization",
+  "Enterprise",
+  "Cohort",
+  "Migration Weight",
+  "Migration Reasons",
+  "Summary",
+];
 
-  if (toNumber(repo["repository-webhooks"]) > 0) {
-    reasons.push(`Webhooks (${repo["repository-webhooks"]})`);
-  }
+/**
+ * Header row of the archived repository details
+ */
+const ARCHIVED_CSV_HEADERS = [
+  "Repository Name",
+  "Organization",
+  "Enterprise",
+  "Cohort",
+  "Secondary Cohorts",
+  "Migration Weight",
+  "Complexity Score",
+  "Gap Score",
+  "Migration Reasons",
+];
 
-  if (toNumber(repo["repository-discussions"]) > 0) {
-    reasons.push(`Discussions (${repo["repository-discussions"]})`);
-  }
+/**
+ * Header row of the cohort summary tables
+ */
+const COHORT_SUMMARY_CSV_HEADERS = [
+  "Cohort",
+  "Repository Count",
+  "Total Weight",
+  "Average Weight",
+  "Average Complexity Score",
+  "Average Gap Score",
+];
 
-  if (toNumber(repo["repository-deploy-keys"]) > 0) {
-    reasons.push(`Deploy keys (${repo["repository-deploy-keys"]})`);
-  }
+/**
+ * Header row of the enterprise overview
+ */
+const ENTERPRISE_OVERVIEW_CSV_HEADERS = [
+  "Enterprise",
+  "Total Repositories",
+  "Total Weight",
+  "Average Weight",
+  "Average Complexity Score",
+  "Average Gap Score",
+];
 
-  if (toNumber(repo["repository-pages-customdomain"]) > 0) {
-    reasons.push(
-      `Pages custom domain (${repo["repository-pages-customdomain"]})`
-    );
-  }
+/**
+ * Header row of the archived repositories by enterprise
+ */
+const ARCHIVED_ENTERPRISE_CSV_HEADERS = [
+  "Enterprise",
+  "Repository Count",
+  "Total Weight",
+  "Average Weight",
+];
 
-  if (toNumber(repo["repository-releases-gt-5gb"]) > 0) {
-    reasons.push(`Large releases (${repo["repository-releases-gt-5gb"]})`);
-  }
+/**
+ * Sort key of a result within its cohort: cohort name, then weight descending
+ */
+function cohortSortKey(cohort: string, migrationWeight: number): SpoolKey {
+  return [cohort, -migrationWeight];
+}
 
-  if (toBoolean(repo.has_maven_packages)) {
-    reasons.push(`Maven packages (${repo.maven_package_count})`);
-  }
+/**
+ * Sort key of a result in the enterprise export: enterprise, cohort, then
+ * weight descending
+ */
+function enterpriseSortKey(result: CohortResult): SpoolKey {
+  return [
+    result.enterpriseName || "Unknown",
+    result.cohort,
+    -result.migrationWeight,
+  ];
+}
 
-  if (toBoolean(repo.has_codespaces)) {
-    reasons.push(
-      `Codespaces (${repo.codespace_count} codespaces, ${repo.codespace_user_count} users)`
-    );
-  }
+/**
+ * Cells of one detailed result, in the order of DETAILED_CSV_HEADERS (a row
+ * of the detailed CSV export and of the Repository Details sheet)
+ */
+function detailedRowCells(result: CohortDetail): CsvCell[] {
+  return [
+    result.repositoryName,
+    result.organizationName,
+    result.enterpriseName,
+    result.cohort,
+    result.secondaryCohorts.join("; "),
+    result.migrationWeight,
+    result.complexityScore,
+    result.gapScore,
+    result.migrationReasons,
+    formatWeightBreakdown(result.weightBreakdown),
+    result.summary,
+    result.featureGapCount,
+    result.activity.lastActivity ?? null,
+    result.activity.daysInactive ?? null,
+    result.activity.activityScore,
+    result.activity.dormant,
+    ...FEATURE_REGISTRY.map((feature) => result[featureFlagName(feature.key)]),
+  ];
+}
 
-  if (toBoolean(repo.has_macos_runners)) {
-    reasons.push("macOS runners");
-  }
+/**
+ * Format one detailed result as an element of the detailed JSON array
+ */
+function formatDetailedJsonElement(result: CohortDetail): string {
+  return JSON.stringify(result, null, 2).replace(/^/gm, "  ");
+}
 
-  if (toBoolean(repo.has_external_collaborators)) {
-    reasons.push("External collaborators");
-  }
+/**
+ * Prepend a head section to a sequence of lines
+ */
+async function* withHead(
+  head: string,
+  lines: AsyncIterable<string>
+): AsyncGenerator<string> {
+  yield head;
+  yield* lines;
+}
 
-  if (toBoolean(repo.has_unmigratable)) {
-    reasons.push("Unmigratable features");
+/**
+ * Parse a sequence of JSON lines
+ */
+async function* parseJsonLines<T>(
+  lines: AsyncIterable<string>
+): AsyncGenerator<T> {
+  for await (const line of lines) {
+    yield JSON.parse(line) as T;
   }
+}
 
-  if (isArchived(repo)) {
-    reasons.push("Archived repository");
+/**
+ * Join JSON array elements into a pretty-printed array
+ */
+async function* formatJsonArray(
+  elements: Iterable<string> | AsyncIterable<string>
+): AsyncGenerator<string> {
+  let first = true;
+  for await (const element of elements) {
+    yield (first ? "[\n" : ",\n") + element;
+    first = false;
   }
-
-  return reasons;
+  yield first ? "[]\n" : "\n]\n";
 }
 
 /**
- * Determine cohort assignment based on repository characteristics
+ * Format one result as a row of the repository details sections
  */
-function assignCohort(
-  repo: RepositoryAnalysis,
-  migrationWeight: number
+function formatResultCsvRow(
+  result: CohortResult,
+  enterpriseName: string,
+  format: CsvFormat
 ): string {
-  // Unmigratable repositories get their own cohort
-  if (
-    CONFIG.FEATURES.SEPARATE_UNMIGRATABLE_COHORT &&
-    toBoolean(repo.has_unmigratable)
-  ) {
-    return "UNMIGRATABLE";
-  }
-
-  // Archived repositories get their own cohort
-  if (isArchived(repo)) {
-    return "ARCHIVED";
-  }
-
-  // macOS runners get separate cohort if enabled
-  if (
-    CONFIG.FEATURES.SEPARATE_MACOS_COHORT &&
-    toBoolean(repo.has_macos_runners)
-  ) {
-    return "MACOS_RUNNERS";
-  }
-
-  // Maven packages get separate cohort if enabled
-  if (
-    CONFIG.FEATURES.SEPARATE_MAVEN_COHORT &&
-    toBoolean(repo.has_maven_packages)
-  ) {
-    return "MAVEN_PACKAGES";
-  }
-
-  // Codespaces get separate cohort if enabled
-  if (
-    CONFIG.FEATURES.SEPARATE_CODESPACE_COHORT &&
-    toBoolean(repo.has_codespaces)
-  ) {
-    return "CODESPACES";
-  }
-
-  // Clean repositories (no migration issues)
-  if (migrationWeight <= CONFIG.THRESHOLDS.CLEAN_REPO_MAX_WEIGHT) {
-    return "CLEAN";
-  }
-
-  // Low complexity migration
-  if (migrationWeight <= CONFIG.THRESHOLDS.LOW_COMPLEXITY_MAX_WEIGHT) {
-    return "LOW_COMPLEXITY";
-  }
+  return formatCsvRow(
+    [
+      result.repoName,
+      result.orgName,
+      enterpriseName,
+      result.cohort,
+      result.migrationWeight,
+      result.reasons.join("; "),
+      result.summary,
+    ],
+    format
+  );
+}
 
-  // Medium complexity migration
-  if (migrationWeight <= CONFIG.THRESHOLDS.MEDIUM_COMPLEXITY_MAX_WEIGHT) {
-    return "MEDIUM_COMPLEXITY";
-  }
+/**
+ * Format one archived result as a row of the archived repository details
+ */
+function formatArchivedCsvRow(result: CohortResult, format: CsvFormat): string {
+  return formatCsvRow(
+    [
+      result.repoName,
+      result.orgName,
+      result.enterpriseName || "Unknown",
+      result.cohort,
+      result.secondaryCohorts.join("; "),
+      result.migrationWeight,
+      result.complexityScore,
+      result.gapScore,
+      result.reasons.join("; "),
+    ],
+    format
+  );
+}
 
-  // High complexity migration
-  return "HIGH_COMPLEXITY";
+/**
+ * Cells of one cohort summary, with the averages rounded to two decimals
+ */
+function cohortSummaryCells(summary: CohortSummary): CsvCell[] {
+  return [
+    summary.cohortName,
+    summary.repositoryCount,
+    summary.totalWeight,
+    roundPoints(summary.averageWeight),
+    roundPoints(summary.averageComplexityScore),
+    roundPoints(summary.averageGapScore),
+  ];
 }
 
 /**
- * Generate summary description for cohort assignment
+ * Format cohort summaries as a CSV table with a header row
  */
-function generateSummary(
-  cohort: string,
-  reasons: string[],
-  weight: number
+function formatCohortSummaryTable(
+  summaries: CohortSummary[],
+  format: CsvFormat
 ): string {
-  switch (cohort) {
-    case "UNMIGRATABLE":
-      return "Repository has features that cannot be migrated - requires special handling";
-    case "ARCHIVED":
-      return "Archived repository - lower migration priority";
-    case "CLEAN":
-      return "Clean repository with no migration blockers - can migrate easily";
-    case "MACOS_RUNNERS":
-      return "Repository with macOS runners - requires runner migration planning";
-    case "MAVEN_PACKAGES":
-      return "Repository with Maven packages - requires package migration planning";
-    case "CODESPACES":
-      return "Repository with Codespaces usage - requires Codespaces migration planning";
-    case "LOW_COMPLEXITY":
-      return `Low complexity migration (weight: ${weight}) - ${reasons.length} minor issues`;
-    case "MEDIUM_COMPLEXITY":
-      return `Medium complexity migration (weight: ${weight}) - ${reasons.length} moderate issues`;
-    case "HIGH_COMPLEXITY":
-      return `High complexity migration (weight: ${weight}) - ${reasons.length} major issues`;
-    default:
-      return `Migration weight: ${weight}`;
-  }
+  return formatCsvTable(
+    COHORT_SUMMARY_CSV_HEADERS,
+    summaries.map(cohortSummaryCells),
+    format
+  );
 }
 
-// =============================================================================
-// MAIN ANALYSIS FUNCTIONS
-// =============================================================================
-
 /**
- * Check if repository has specific feature categories (for boolean flags)
- */
-function hasFeatureFlags(repo: RepositoryAnalysis): {
-  HAS_APP_INSTALLATIONS: boolean;
-  HAS_GIT_LFS_OBJECTS: boolean;
-  HAS_PACKAGES: boolean;
-  HAS_PROJECTS: boolean;
-  HAS_CUSTOM_PROPERTIES: boolean;
-  HAS_RULESETS: boolean;
-  HAS_SECRETS: boolean;
-  HAS_ENVIRONMENTS: boolean;
-  HAS_SELF_HOSTED_RUNNERS: boolean;
-  HAS_WEBHOOKS: boolean;
-  HAS_DISCUSSIONS: boolean;
-  HAS_DEPLOY_KEYS: boolean;
-  HAS_PAGES_CUSTOM_DOMAIN: boolean;
-  HAS_RELEASES_LARGE: boolean;
-  HAS_CODESPACES: boolean;
-  HAS_MAVEN_PACKAGES: boolean;
-  HAS_MACOS_RUNNERS: boolean;
-  HAS_IS_ARCHIVED: boolean;
-  HAS_EXTERNAL_COLLABORATORS: boolean;
-  HAS_UNMIGRATABLE: boolean;
-} {
-  return {
-    HAS_APP_INSTALLATIONS: toNumber(repo.app_installations) > 0,
-    HAS_GIT_LFS_OBJECTS: toNumber(repo["git-lfs-objects"]) > 0,
-    HAS_PACKAGES: toNumber(repo["repository-packages"]) > 0,
-    HAS_PROJECTS:
-      toNumber(repo.projects_linked_to_repo) > 0 ||
-      toNumber(repo.issues_linked_to_projects) > 0,
-    HAS_CUSTOM_PROPERTIES: toNumber(repo["repository-custom-properties"]) > 0,
-    HAS_RULESETS: toNumber(repo["repository-rulesets"]) > 0,
-    HAS_SECRETS:
-      toNumber(repo["repository-actions-secrets"]) > 0 ||
-      toNumber(repo["repository-dependabot-secrets"]) > 0,
-    HAS_ENVIRONMENTS: toNumber(repo["repository-environments"]) > 0,
-    HAS_SELF_HOSTED_RUNNERS:
-      toNumber(repo["repository-actions-self-hosted-runners"]) > 0,
-    HAS_WEBHOOKS: toNumber(repo["repository-webhooks"]) > 0,
-    HAS_DISCUSSIONS: toNumber(repo["repository-discussions"]) > 0,
-    HAS_DEPLOY_KEYS: toNumber(repo["repository-deploy-keys"]) > 0,
-    HAS_PAGES_CUSTOM_DOMAIN:
-      toNumber(repo["repository-pages-customdomain"]) > 0,
-    HAS_RELEASES_LARGE: toNumber(repo["repository-releases-gt-5gb"]) > 0,
-    HAS_CODESPACES: toBoolean(repo.has_codespaces),
-    HAS_MAVEN_PACKAGES: toBoolean(repo.has_maven_packages),
-    HAS_MACOS_RUNNERS: toBoolean(repo.has_macos_runners),
-    HAS_IS_ARCHIVED: isArchived(repo),
-    HAS_EXTERNAL_COLLABORATORS: toBoolean(repo.has_external_collaborators),
-    HAS_UNMIGRATABLE: toBoolean(repo.has_unmigratable),
-  };
+ * Format the enterprise overview: totals and averages per enterprise
+ */
+function formatEnterpriseOverviewTable(
+  enterpriseSummaries: EnterpriseCohortSummary[],
+  format: CsvFormat
+): string {
+  return formatCsvTable(
+    ENTERPRISE_OVERVIEW_CSV_HEADERS,
+    enterpriseSummaries.map((enterprise) => [
+      enterprise.enterpriseName,
+      enterprise.totalRepositories,
+      enterprise.totalWeight,
+      roundPoints(enterprise.averageWeight),
+      roundPoints(enterprise.averageComplexityScore),
+      roundPoints(enterprise.averageGapScore),
+    ]),
+    format
+  );
 }
 
 /**
- * Count feature gaps (MAVEN_PACKAGES, CODESPACES, MACOS_RUNNERS)
+ * Format the cohort (or tag) summaries of every enterprise as one table,
+ * each row led by its enterprise
  */
-function countFeatureGaps(repo: RepositoryAnalysis): number {
-  let count = 0;
-  if (toBoolean(repo.has_maven_packages)) count++;
-  if (toBoolean(repo.has_codespaces)) count++;
-  if (toBoolean(repo.has_macos_runners)) count++;
-  return count;
+function formatEnterpriseCohortTable(
+  enterpriseSummaries: EnterpriseCohortSummary[],
+  summaries: "cohortSummaries" | "tagSummaries",
+  format: CsvFormat
+): string {
+  return formatCsvTable(
+    ["Enterprise", ...COHORT_SUMMARY_CSV_HEADERS],
+    enterpriseSummaries.flatMap((enterprise) =>
+      enterprise[summaries].map((summary) => [
+        enterprise.enterpriseName,
+        ...cohortSummaryCells(summary),
+      ])
+    ),
+    format
+  );
 }
 
 /**
- * Analyze repositories and generate detailed cohort data
+ * Format archived repository totals per enterprise
  */
-export function analyzeRepositoriesDetailed(data: LoadedData): CohortDetail[] {
-  const results: CohortDetail[] = [];
-
-  for (const repo of data.repositories) {
-    const migrationWeight = calculateMigrationWeight(repo);
-    const migrationReasons = getMigrationReasons(repo);
-    const cohort = assignCohort(repo, migrationWeight);
-    const summary = generateSummary(cohort, migrationReasons, migrationWeight);
-    const featureFlags = hasFeatureFlags(repo);
-    const featureGapCount = countFeatureGaps(repo);
-
-    const result: CohortDetail = {
-      repositoryName: repo.Repo_Name,
-      organizationName: repo.Org_Name,
-      enterpriseName: repo.Enterprise,
-      cohort,
-      cohortWeight: migrationWeight, // For backwards compatibility
-      migrationWeight,
-      migrationReasons: migrationReasons.join("; "),
-      summary,
-      featureGapCount,
-      ...featureFlags,
-    };
-
-    results.push(result);
-  }
-
-  return results;
+function formatArchivedEnterpriseTable(
+  aggregates: SummaryAggregates,
+  format: CsvFormat
+): string {
+  return formatCsvTable(
+    ARCHIVED_ENTERPRISE_CSV_HEADERS,
+    summarizeEnterprises(aggregates).map((enterprise) => [
+      enterprise.enterpriseName,
+      enterprise.totalRepositories,
+      enterprise.totalWeight,
+      roundPoints(enterprise.averageWeight),
+    ]),
+    format
+  );
 }
 
 /**
- * Analyze repositories and return simplified cohort results
+ * Format the summary sections of the combined cohort export (everything
+ * before the repository details)
  */
-export function analyzeRepositories(data: LoadedData): CohortResult[] {
-  const results: CohortResult[] = [];
-
-  for (const repo of data.repositories) {
-    const migrationWeight = calculateMigrationWeight(repo);
-    const migrationReasons = getMigrationReasons(repo);
-    const cohort = assignCohort(repo, migrationWeight);
-    const summary = generateSummary(cohort, migrationReasons, migrationWeight);
-
-    const result: CohortResult = {
-      repoName: repo.Repo_Name,
-      orgName: repo.Org_Name,
-      enterpriseName: repo.Enterprise,
-      cohort,
-      migrationWeight,
-      reasons: migrationReasons,
-      summary,
-      isArchived: isArchived(repo),
-    };
+function formatCohortSummarySections(
+  summaries: CohortSummary[],
+  tagSummaries: CohortSummary[],
+  format: CsvFormat
+): string {
+  let csv = "";
 
-    results.push(result);
-  }
+  // Add summary section
+  csv += formatCsvBanner("COHORT SUMMARY", format, true);
+  csv += formatCohortSummaryTable(summaries, format);
+
+  // Add tag summary section (primary and secondary cohorts)
+  csv += formatCsvBanner("COHORT TAG SUMMARY", format);
+  csv += formatCohortSummaryTable(tagSummaries, format);
 
-  return results;
+  csv += formatCsvBanner("REPOSITORY DETAILS", format);
+  csv += formatCsvHeader(RESULT_CSV_HEADERS, format);
+
+  return csv;
 }
 
 /**
- * Generate summary statistics for each cohort
+ * Format the summary sections of the combined enterprise export (everything
+ * before the repository details)
  */
-export function generateCohortSummaries(
-  results: CohortResult[]
-): CohortSummary[] {
-  const summaries: CohortSummary[] = [];
-  const cohortMap = new Map<string, CohortResult[]>();
+function formatEnterpriseSummarySections(
+  enterpriseSummaries: EnterpriseCohortSummary[],
+  format: CsvFormat
+): string {
+  let csv = "";
 
-  // Group results by cohort
-  for (const result of results) {
-    if (!cohortMap.has(result.cohort)) {
-      cohortMap.set(result.cohort, []);
-    }
-    cohortMap.get(result.cohort)!.push(result);
-  }
+  // Add overall summary section
+  csv += formatCsvBanner("ENTERPRISE OVERVIEW", format, true);
+  csv += formatEnterpriseOverviewTable(enterpriseSummaries, format);
 
-  // Calculate summaries
-  for (const [cohortName, cohortResults] of cohortMap) {
-    const repositoryCount = cohortResults.length;
-    const totalWeight = cohortResults.reduce(
-      (sum, result) => sum + result.migrationWeight,
-      0
+  // Add detailed summaries for each enterprise
+  for (const enterprise of enterpriseSummaries) {
+    csv += formatCsvBanner(
+      `${enterprise.enterpriseName} COHORT SUMMARY`,
+      format
     );
-    const averageWeight =
-      repositoryCount > 0 ? totalWeight / repositoryCount : 0;
-
-    summaries.push({
-      cohortName,
-      repositoryCount,
-      totalWeight,
-      averageWeight,
-    });
+    csv += formatCohortSummaryTable(enterprise.cohortSummaries, format);
+    csv += formatCsvBanner(
+      `${enterprise.enterpriseName} COHORT TAG SUMMARY`,
+      format
+    );
+    csv += formatCohortSummaryTable(enterprise.tagSummaries, format);
   }
 
-  // Sort by average weight descending (most complex first)
-  return summaries.sort((a, b) => b.averageWeight - a.averageWeight);
+  // Add repository details section organized by enterprise
+  csv += formatCsvBanner("REPOSITORY DETAILS BY ENTERPRISE", format);
+  csv += formatCsvHeader(RESULT_CSV_HEADERS, format);
+
+  return csv;
 }
 
 /**
- * Generate enterprise-specific cohort summaries
+ * Format the summary sections of the combined archived repository report
+ * (everything before the repository details)
  */
-export function generateEnterpriseCohortSummaries(
-  results: CohortResult[]
-): EnterpriseCohortSummary[] {
-  const enterpriseSummaries: EnterpriseCohortSummary[] = [];
-  const enterpriseMap = new Map<string, CohortResult[]>();
+function formatArchivedSummarySections(
+  aggregates: SummaryAggregates,
+  format: CsvFormat
+): string {
+  let csv = "";
 
-  // Group results by enterprise
-  for (const result of results) {
-    const enterprise = result.enterpriseName || "Unknown";
-    if (!enterpriseMap.has(enterprise)) {
-      enterpriseMap.set(enterprise, []);
-    }
-    enterpriseMap.get(enterprise)!.push(result);
-  }
+  csv += formatCsvBanner(
+    "ARCHIVED REPOSITORY COMPLEXITY BREAKDOWN",
+    format,
+    true
+  );
+  csv += formatCohortSummaryTable(summarizeCohorts(aggregates), format);
 
-  // Generate summaries for each enterprise
-  for (const [enterpriseName, enterpriseResults] of enterpriseMap) {
-    const cohortSummaries = generateCohortSummaries(enterpriseResults);
-    const totalRepositories = enterpriseResults.length;
-    const totalWeight = enterpriseResults.reduce(
-      (sum, result) => sum + result.migrationWeight,
-      0
-    );
-    const averageWeight =
-      totalRepositories > 0 ? totalWeight / totalRepositories : 0;
+  csv += formatCsvBanner("ARCHIVED REPOSITORIES BY ENTERPRISE", format);
+  csv += formatArchivedEnterpriseTable(aggregates, format);
 
-    enterpriseSummaries.push({
-      enterpriseName,
-      cohortSummaries,
-      totalRepositories,
-      totalWeight,
-      averageWeight,
-    });
-  }
+  csv += formatCsvBanner("ARCHIVED REPOSITORY DETAILS", format);
+  csv += formatCsvHeader(ARCHIVED_CSV_HEADERS, format);
 
-  // Sort by enterprise name
-  return enterpriseSummaries.sort((a, b) =>
-    a.enterpriseName.localeCompare(b.enterpriseName)
-  );
+  return csv;
 }
 
+// =============================================================================
+// IN-MEMORY EXPORTS
+// =============================================================================
+
 /**
  * Export detailed results to CSV format
  */
-export function exportDetailedToCsv(results: CohortDetail[]): string {
-  const headers = [
-    "Repository Name",
-    "Organization",
-    "Enterprise",
-    "Cohort",
-    "Migration Weight",
-    "Migration Reasons",
-    "Summary",
-    "Feature Gap Count",
-    "HAS_APP_INSTALLATIONS",
-    "HAS_GIT_LFS_OBJECTS",
-    "HAS_PACKAGES",
-    "HAS_PROJECTS",
-    "HAS_CUSTOM_PROPERTIES",
-    "HAS_RULESETS",
-    "HAS_SECRETS",
-    "HAS_ENVIRONMENTS",
-    "HAS_SELF_HOSTED_RUNNERS",
-    "HAS_WEBHOOKS",
-    "HAS_DISCUSSIONS",
-    "HAS_DEPLOY_KEYS",
-    "HAS_PAGES_CUSTOM_DOMAIN",
-    "HAS_RELEASES_LARGE",
-    "HAS_CODESPACES",
-    "HAS_MAVEN_PACKAGES",
-    "HAS_MACOS_RUNNERS",
-    "HAS_IS_ARCHIVED",
-    "HAS_EXTERNAL_COLLABORATORS",
-    "HAS_UNMIGRATABLE",
-  ];
-
-  let csv = headers.join(",") + "\n";
+export function exportDetailedToCsv(
+  results: CohortDetail[],
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  let csv = formatCsvHeader(DETAILED_CSV_HEADERS, format);
 
   // Sort results by cohort, then by weight descending
-  const sortedResults = results.sort((a, b) => {
-    if (a.cohort !== b.cohort) {
-      return a.cohort.localeCompare(b.cohort);
-    }
-    return b.migrationWeight - a.migrationWeight;
-  });
+  const sortedResults = [...results].sort((a, b) =>
+    compareKeys(
+      cohortSortKey(a.cohort, a.migrationWeight),
+      cohortSortKey(b.cohort, b.migrationWeight)
+    )
+  );
 
   for (const result of sortedResults) {
-    const row = [
-      `"${result.repositoryName}"`,
-      `"${result.organizationName}"`,
-      `"${result.enterpriseName}"`,
-      `"${result.cohort}"`,
-      result.migrationWeight,
-      `"${result.migrationReasons.replace(/"/g, '""')}"`,
-      `"${result.summary.replace(/"/g, '""')}"`,
-      result.featureGapCount,
-      result.HAS_APP_INSTALLATIONS,
-      result.HAS_GIT_LFS_OBJECTS,
-      result.HAS_PACKAGES,
-      result.HAS_PROJECTS,
-      result.HAS_CUSTOM_PROPERTIES,
-      result.HAS_RULESETS,
-      result.HAS_SECRETS,
-      result.HAS_ENVIRONMENTS,
-      result.HAS_SELF_HOSTED_RUNNERS,
-      result.HAS_WEBHOOKS,
-      result.HAS_DISCUSSIONS,
-      result.HAS_DEPLOY_KEYS,
-      result.HAS_PAGES_CUSTOM_DOMAIN,
-      result.HAS_RELEASES_LARGE,
-      result.HAS_CODESPACES,
-      result.HAS_MAVEN_PACKAGES,
-      result.HAS_MACOS_RUNNERS,
-      result.HAS_IS_ARCHIVED,
-      result.HAS_EXTERNAL_COLLABORATORS,
-      result.HAS_UNMIGRATABLE,
-    ];
-
-    csv += row.join(",") + "\n";
+    csv += formatCsvRow(detailedRowCells(result), format);
   }
 
   return csv;
 }
 
 /**
- * Export results to CSV format
+ * Export detailed results, including each repository's weight breakdown, to JSON
+ */
+export function exportDetailedToJson(results: CohortDetail[]): string {
+  return JSON.stringify(results, null, 2) + "\n";
+}
+
+/**
+ * Export results to CSV format, as the combined cohort export
  */
 export function exportToCsv(
   results: CohortResult[],
-  summaries: CohortSummary[]
+  summaries: CohortSummary[],
+  tagSummaries: CohortSummary[] = generateTagSummaries(results),
+  format: CsvFormat = DEFAULT_CSV_FORMAT
 ): string {
-  let csv = "";
-
-  // Add summary section
-  csv += "=== COHORT SUMMARY ===\n";
-  csv += "Cohort,Repository Count,Total Weight,Average Weight\n";
-  for (const summary of summaries) {
-    csv += `"${summary.cohortName}",${summary.repositoryCount},${
-      summary.totalWeight
-    },${summary.averageWeight.toFixed(2)}\n`;
-  }
-
-  csv += "\n=== REPOSITORY DETAILS ===\n";
-  csv +=
-    "Repository Name,Organization,Enterprise,Cohort,Migration Weight,Migration Reasons,Summary\n";
+  let csv = formatCohortSummarySections(summaries, tagSummaries, format);
 
   // Sort results by cohort, then by weight descending
-  const sortedResults = results.sort((a, b) => {
-    if (a.cohort !== b.cohort) {
-      return a.cohort.localeCompare(b.cohort);
-    }
-    return b.migrationWeight - a.migrationWeight;
-  });
+  const sortedResults = [...results].sort((a, b) =>
+    compareKeys(
+      cohortSortKey(a.cohort, a.migrationWeight),
+      cohortSortKey(b.cohort, b.migrationWeight)
+    )
+  );
 
   for (const result of sortedResults) {
-    const reasonsStr = result.reasons.join("; ");
-    csv += `"${result.repoName}","${result.orgName}","${
-      result.enterpriseName
-    }","${result.cohort}",${result.migrationWeight},"${reasonsStr.replace(
-      /"/g,
-      '""'
-    )}","${result.summary.replace(/"/g, '""')}"\n`;
+    csv += formatResultCsvRow(result, result.enterpriseName, format);
   }
 
   return csv;
 }
 
 /**
- * Export enterprise-specific results to CSV format
+ * Export enterprise-specific results to CSV format, as the combined
+ * enterprise export
  */
 export function exportEnterpriseSpecificToCsv(
   enterpriseSummaries: EnterpriseCohortSummary[],
-  allResults: CohortResult[]
+  allResults: CohortResult[],
+  format: CsvFormat = DEFAULT_CSV_FORMAT
 ): string {
-  let csv = "";
+  let csv = formatEnterpriseSummarySections(enterpriseSummaries, format);
 
-  // Add overall summary section
-  csv += "=== ENTERPRISE OVERVIEW ===\n";
-  csv += "Enterprise,Total Repositories,Total Weight,Average Weight\n";
-  for (const enterprise of enterpriseSummaries) {
-    csv += `"${enterprise.enterpriseName}",${enterprise.totalRepositories},${
-      enterprise.totalWeight
-    },${enterprise.averageWeight.toFixed(2)}\n`;
-  }
+  // Sort results by enterprise, then by cohort, then by weight descending
+  const sortedResults = [...allResults].sort((a, b) =>
+    compareKeys(enterpriseSortKey(a), enterpriseSortKey(b))
+  );
 
-  // Add detailed summaries for each enterprise
-  for (const enterprise of enterpriseSummaries) {
-    csv += `\n=== ${enterprise.enterpriseName} COHORT SUMMARY ===\n`;
-    csv += "Cohort,Repository Count,Total Weight,Average Weight\n";
-    for (const summary of enterprise.cohortSummaries) {
-      csv += `"${summary.cohortName}",${summary.repositoryCount},${
-        summary.totalWeight
-      },${summary.averageWeight.toFixed(2)}\n`;
-    }
+  for (const result of sortedResults) {
+    csv += formatResultCsvRow(
+      result,
+      result.enterpriseName || "Unknown",
+      format
+    );
   }
 
-  // Add repository details section organized by enterprise
-  csv += "\n=== REPOSITORY DETAILS BY ENTERPRISE ===\n";
-  csv +=
-    "Repository Name,Organization,Enterprise,Cohort,Migration Weight,Migration Reasons,Summary\n";
+  return csv;
+}
 
-  // Sort results by enterprise, then by cohort, then by weight descending
-  const sortedResults = allResults.sort((a, b) => {
-    const enterpriseA = a.enterpriseName || "Unknown";
-    const enterpriseB = b.enterpriseName || "Unknown";
+// =============================================================================
+// ARCHIVED REPOSITORY TRACK
+// =============================================================================
 
-    if (enterpriseA !== enterpriseB) {
-      return enterpriseA.localeCompare(enterpriseB);
-    }
-    if (a.cohort !== b.cohort) {
-      return a.cohort.localeCompare(b.cohort);
-    }
-    return b.migrationWeight - a.migrationWeight;
-  });
+/**
+ * Keep the repositories that match a predicate, with their parse diagnostics
+ */
+function filterLoadedData(
+  data: LoadedData,
+  predicate: (repo: NormalizedRepository) => boolean
+): LoadedData {
+  const repositories = data.repositories.filter(predicate);
+  const rows = new Set(
+    repositories.flatMap((r) =>
+      repositorySources(r).map((source) => `${source.file}:${source.row}`)
+    )
+  );
+  return {
+    repositories,
+    diagnostics: data.diagnostics.filter((d) => rows.has(`${d.file}:${d.row}`)),
+  };
+}
+
+/**
+ * Split loaded data into active and archived repositories
+ */
+export function partitionArchivedRepositories(data: LoadedData): {
+  active: LoadedData;
+  archived: LoadedData;
+} {
+  return {
+    active: filterLoadedData(data, (r) => !r.isArchived),
+    archived: filterLoadedData(data, (r) => r.isArchived),
+  };
+}
+
+/**
+ * Configuration used to classify archived repositories on their own: the
+ * default ARCHIVED cohort becomes a tag so archived repositories are broken
+ * down by complexity like active ones
+ */
+export function archivedTrackConfig(config: AnalysisConfig): AnalysisConfig {
+  return {
+    ...config,
+    FEATURES: { ...config.FEATURES, INCLUDE_ARCHIVED_IN_MAIN_ANALYSIS: true },
+  };
+}
+
+/**
+ * Analyze archived repositories separately from the main analysis
+ */
+export function analyzeArchivedRepositories(
+  archived: LoadedData,
+  config: AnalysisConfig = DEFAULT_CONFIG
+): CohortResult[] {
+  return analyzeRepositories(archived, archivedTrackConfig(config));
+}
+
+/**
+ * Export the archived repository report to CSV format, as the combined
+ * archived export
+ */
+export function exportArchivedToCsv(
+  results: CohortResult[],
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  let csv = formatArchivedSummarySections(aggregateResults(results), format);
+
+  // Sort results by cohort, then by weight descending
+  const sortedResults = [...results].sort((a, b) =>
+    compareKeys(
+      cohortSortKey(a.cohort, a.migrationWeight),
+      cohortSortKey(b.cohort, b.migrationWeight)
+    )
+  );
 
   for (const result of sortedResults) {
-    const reasonsStr = result.reasons.join("; ");
-    csv += `"${result.repoName}","${result.orgName}","${
-      result.enterpriseName || "Unknown"
-    }","${result.cohort}",${result.migrationWeight},"${reasonsStr.replace(
-      /"/g,
-      '""'
-    )}","${result.summary.replace(/"/g, '""')}"\n`;
+    csv += formatArchivedCsvRow(result, format);
   }
 
   return csv;
 }
 
+// =============================================================================
+// MAIN ANALYSIS
+// =============================================================================
+
+/**
+ * Output spools filled while streaming, one per report. Spools of reports
+ * the run does not write are not created.
+ */
+interface AnalysisSpools {
+  detailedCsv: SortedSpool | undefined;
+  detailedJson: SortedSpool | undefined;
+  summary: SortedSpool | undefined;
+  enterprise: SortedSpool | undefined;
+  archived: SortedSpool | undefined;
+  archivedDetails: SortedSpool | undefined;
+  diagnostics: SortedSpool | undefined;
+  dataQuality: SortedSpool | undefined;
+  merge: SortedSpool | undefined;
+  mergeReport: SortedSpool | undefined;
+  report: SortedSpool | undefined;
+  html: SortedSpool | undefined;
+  markdown: SortedSpool | undefined;
+  xlsxDetails: SortedSpool | undefined;
+  xlsxEnterprises: SortedSpool | undefined;
+  xlsxCohorts: SortedSpool | undefined;
+}
+
 /**
- * Main analysis function that orchestrates the entire process
+ * Print cohort summaries to console
  */
-export function runCohortAnalysis(data: LoadedData): void {
+function printCohortSummaries(summaries: CohortSummary[]): void {
+  for (const summary of summaries) {
+    console.log(
+      `${summary.cohortName.padEnd(20)} | ${summary.repositoryCount
+        .toString()
+        .padStart(5)} repos | Avg Weight: ${summary.averageWeight.toFixed(
+        2
+      )} | Avg Complexity: ${summary.averageComplexityScore.toFixed(
+        2
+      )} | Avg Gap: ${summary.averageGapScore.toFixed(2)}`
+    );
+  }
+}
+
+/**
+ * Main analysis function that orchestrates the entire process. Rows are
+ * classified one at a time: summaries are built from running aggregates and
+ * repository rows are spooled to temporary files in sorted runs, so memory use
+ * stays bounded regardless of the size of the input.
+ * @param input - Loaded data, or normalized rows streamed from the input file
+ * @param run - Inputs of the run, recorded in the JSON report
+ * @param output - Where the reports are written, how they are named and
+ * which are written
+ * @param inputAudit - Audit the input rows were checked against as they were read
+ * (default: the merged rows are audited here)
+ */
+export async function runCohortAnalysis(
+  input: LoadedData | AsyncIterable<NormalizedRow>,
+  config: AnalysisConfig = DEFAULT_CONFIG,
+  run: ReportRunInfo = { inputs: [] },
+  output: OutputOptions = {},
+  inputAudit?: DataQualityAudit
+): Promise<void> {
   console.log("Starting cohort analysis...");
+  const plan = createOutputPlan(output, run.inputs);
+  console.log(`Writing reports to ${plan.directory}`);
+
+  const rows = "repositories" in input ? loadedDataRows(input) : input;
+  const spoolDirectory = mkdtempSync(join(tmpdir(), "cohort-identifier-"));
 
   try {
-    // Generate detailed analysis
-    const detailedResults = analyzeRepositoriesDetailed(data);
-    const detailedCsvContent = exportDetailedToCsv(detailedResults);
-
-    // Write detailed results to file
-    const detailedOutputPath = "output/cohort-analysis-detailed.csv";
-    writeFileSync(detailedOutputPath, detailedCsvContent, "utf-8");
-    console.log(`Detailed results exported to ${detailedOutputPath}`);
-
-    // Generate summary analysis
-    const simpleResults = analyzeRepositories(data);
-    const summaries = generateCohortSummaries(simpleResults);
-    const simpleCsvContent = exportToCsv(simpleResults, summaries);
-
-    // Write summary results to file
-    const summaryOutputPath = "output/cohort-analysis.csv";
-    writeFileSync(summaryOutputPath, simpleCsvContent, "utf-8");
-    console.log(`Summary results exported to ${summaryOutputPath}`);
-
-    // Generate enterprise-specific analysis
-    const enterpriseSummaries =
-      generateEnterpriseCohortSummaries(simpleResults);
-    const enterpriseCsvContent = exportEnterpriseSpecificToCsv(
+    // Archived repositories are either classified with the active ones (and
+    // tagged ARCHIVED) or reported on a separate track
+    const includeArchived = config.FEATURES.INCLUDE_ARCHIVED_IN_MAIN_ANALYSIS;
+    const csv = csvFormat(config);
+    const combinedFiles = config.CSV.COMBINED_FILES;
+    const rules = getCohortRules(config);
+    const archivedConfig = archivedTrackConfig(config);
+    const archivedRules = getCohortRules(archivedConfig);
+    // Measured once, so a run crossing midnight measures every row alike
+    const referenceTime = activityReferenceTime(config);
+
+    const aggregates = createSummaryAggregates();
+    const archivedAggregates = createSummaryAggregates();
+    const diagnosticCounts = new Map<string, number>();
+    let diagnosticCount = 0;
+    // Only the reports the run writes are formatted and spooled
+    const spoolFor = (report: ReportKind, name: string, needed = true) =>
+      needed && emitsReport(plan, report)
+        ? createSpool(spoolDirectory, name)
+        : undefined;
+    const archivedTrack = !includeArchived;
+    const spools: AnalysisSpools = {
+      detailedCsv: spoolFor("detailed", "detailed-csv"),
+      detailedJson: spoolFor("detailed", "detailed-json"),
+      summary: spoolFor("summaries", "summary", combinedFiles),
+      enterprise: spoolFor("summaries", "enterprise", combinedFiles),
+      archived: spoolFor(
+        "archived",
+        "archived",
+        archivedTrack && combinedFiles
+      ),
+      archivedDetails: spoolFor("archived", "archived-details", archivedTrack),
+      diagnostics: spoolFor("data-quality", "diagnostics"),
+      dataQuality: spoolFor("data-quality", "data-quality", combinedFiles),
+      merge: spoolFor("merge", "merge"),
+      mergeReport: spoolFor("merge", "merge-report", combinedFiles),
+      report: spoolFor("json", "report"),
+      html: spoolFor("html", "html"),
+      markdown: spoolFor("markdown", "markdown"),
+      xlsxDetails: spoolFor("xlsx", "xlsx-details"),
+      xlsxEnterprises: spoolFor("xlsx", "xlsx-enterprises"),
+      xlsxCohorts: spoolFor("xlsx", "xlsx-cohorts"),
+    };
+    const mergeCounts = new Map<string, MergeFileCounts>();
+    const audit = inputAudit ?? createAudit();
+    const topRepositories = createTopRepositories();
+
+    // Print the input data audit to console once it is complete, ahead of
+    // the classification summaries
+    let auditPrinted = false;
+    const printAudit = () => {
+      if (!auditPrinted) {
+        auditPrinted = true;
+        for (const line of formatAuditConsole(audit)) {
+          console.log(line);
+        }
+      }
+    };
+
+    // Audit and classify each row as it is read. Merged rows only arrive
+    // once every input row has been read, so an audit filled while reading
+    // is complete by the first of them.
+    for await (const row of rows) {
+      if (inputAudit) {
+        printAudit();
+      } else {
+        auditMergedRow(audit, row);
+      }
+
+      const { repository, diagnostics } = row;
+      for (const diagnostic of diagnostics.filter(isUnparsed)) {
+        addDiagnosticCount(diagnosticCounts, diagnostic);
+        if (spools.diagnostics) {
+          const diagnosticRow = formatDiagnosticCsvRow(diagnostic, csv);
+          addToSpool(spools.diagnostics, [], diagnosticRow);
+          if (spools.dataQuality) {
+            addToSpool(spools.dataQuality, [], diagnosticRow);
+          }
+        }
+        diagnosticCount++;
+      }
+      addMergeCounts(mergeCounts, repository);
+      if (spools.merge) {
+        const mergeRow = formatMergeReportCsvRow(repository, csv);
+        addToSpool(spools.merge, [], mergeRow);
+        if (spools.mergeReport) {
+          addToSpool(spools.mergeReport, [], mergeRow);
+        }
+      }
+
+      if (!includeArchived && repository.isArchived) {
+        const { result } = classifyRepository(
+          repository,
+          archivedConfig,
+          archivedRules,
+          referenceTime
+        );
+        addToAggregates(archivedAggregates, result);
+        if (spools.archivedDetails) {
+          const archivedRow = formatArchivedCsvRow(result, csv);
+          const archivedKey = cohortSortKey(
+            result.cohort,
+            result.migrationWeight
+          );
+          addToSpool(spools.archivedDetails, archivedKey, archivedRow);
+          if (spools.archived) {
+            addToSpool(spools.archived, archivedKey, archivedRow);
+          }
+        }
+        continue;
+      }
+
+      const { detail, result } = classifyRepository(
+        repository,
+        config,
+        rules,
+        referenceTime
+      );
+      const sortKey = cohortSortKey(result.cohort, result.migrationWeight);
+      addToAggregates(aggregates, result);
+      if (spools.detailedCsv || spools.xlsxDetails) {
+        const cells = detailedRowCells(detail);
+        if (spools.detailedCsv) {
+          addToSpool(spools.detailedCsv, sortKey, formatCsvRow(cells, csv));
+        }
+        if (spools.xlsxDetails) {
+          addToSpool(spools.xlsxDetails, sortKey, JSON.stringify(cells));
+        }
+      }
+      if (spools.detailedJson || spools.report) {
+        const detailJson = formatDetailedJsonElement(detail);
+        if (spools.detailedJson) {
+          addToSpool(spools.detailedJson, sortKey, detailJson);
+        }
+        if (spools.report) {
+          addToSpool(spools.report, sortKey, detailJson);
+        }
+      }
+      if (spools.html) {
+        addToSpool(spools.html, sortKey, formatHtmlRepositoryRow(detail));
+      }
+      if (spools.markdown) {
+        addToSpool(
+          spools.markdown,
+          sortKey,
+          formatMarkdownRepositoryLine(detail)
+        );
+        addToTopRepositories(topRepositories, detail, config);
+      }
+      if (spools.xlsxEnterprises && spools.xlsxCohorts) {
+        addToSpool(
+          spools.xlsxEnterprises,
+          enterpriseSortKey(result),
+          formatEnterpriseSheetLine(detail)
+        );
+        addToSpool(spools.xlsxCohorts, sortKey, formatCohortSheetLine(detail));
+      }
+      if (spools.summary && spools.enterprise) {
+        addToSpool(
+          spools.summary,
+          sortKey,
+          formatResultCsvRow(result, result.enterpriseName, csv)
+        );
+        addToSpool(
+          spools.enterprise,
+          enterpriseSortKey(result),
+          formatResultCsvRow(result, result.enterpriseName || "Unknown", csv)
+        );
+      }
+    }
+
+    printAudit();
+
+    // Summaries shared by the reports
+    const summaries = summarizeCohorts(aggregates);
+    const tagSummaries = summarizeTags(aggregates);
+    const enterpriseSummaries = summarizeEnterprises(aggregates);
+    const archivedSummaries = summarizeCohorts(archivedAggregates);
+    const columnCounts = sortDiagnosticCounts(diagnosticCounts);
+    const countRepositories = (cohorts: CohortSummary[]) =>
+      cohorts.reduce((sum, summary) => sum + summary.repositoryCount, 0);
+    const reportSections: ReportSections = {
+      metadata: createReportMetadata(run, config, referenceTime, {
+        repositories: countRepositories(summaries),
+        archivedRepositories: countRepositories(archivedSummaries),
+        unparsedCells: diagnosticCount,
+        auditFindings: countAuditFindings(audit),
+      }),
+      cohortSummaries: summaries,
+      tagSummaries,
       enterpriseSummaries,
-      simpleResults
-    );
+      ...(!includeArchived && { archivedSummaries }),
+      dataQuality: {
+        unparsedCells: {
+          total: diagnosticCount,
+          byColumn: columnCounts.map(([column, cells]) => ({ column, cells })),
+        },
+        audit: summarizeAudit(audit),
+      },
+    };
 
-    // Write enterprise-specific results to file
-    const enterpriseOutputPath = "output/cohort-analysis-enterprise.csv";
-    writeFileSync(enterpriseOutputPath, enterpriseCsvContent, "utf-8");
-    console.log(
-      `Enterprise-specific results exported to ${enterpriseOutputPath}`
-    );
+    // Write detailed results as CSV, and with weight breakdowns as JSON
+    if (emitsReport(plan, "detailed")) {
+      const detailedOutputPath = outputPath(
+        plan,
+        "cohort-analysis-detailed",
+        ".csv"
+      );
+      await writeCsvFile(
+        detailedOutputPath,
+        withHead(
+          formatCsvHeader(DETAILED_CSV_HEADERS, csv),
+          drainSpool(spools.detailedCsv!)
+        ),
+        csv
+      );
+      console.log(`Detailed results exported to ${detailedOutputPath}`);
+
+      const detailedJsonOutputPath = outputPath(
+        plan,
+        "cohort-analysis-detailed",
+        ".json"
+      );
+      await writeStreamedFile(
+        detailedJsonOutputPath,
+        formatJsonArray(drainSpool(spools.detailedJson!))
+      );
+      console.log(`Detailed results exported to ${detailedJsonOutputPath}`);
+    }
+
+    // Write each summary table to its own file, and the combined files whose
+    // tables are separated by banners
+    if (emitsReport(plan, "summaries")) {
+      const summaryTables: [string, string][] = [
+        ["cohort-analysis-cohorts", formatCohortSummaryTable(summaries, csv)],
+        ["cohort-analysis-tags", formatCohortSummaryTable(tagSummaries, csv)],
+        [
+          "cohort-analysis-enterprises",
+          formatEnterpriseOverviewTable(enterpriseSummaries, csv),
+        ],
+        [
+          "cohort-analysis-enterprise-cohorts",
+          formatEnterpriseCohortTable(
+            enterpriseSummaries,
+            "cohortSummaries",
+            csv
+          ),
+        ],
+        [
+          "cohort-analysis-enterprise-tags",
+          formatEnterpriseCohortTable(enterpriseSummaries, "tagSummaries", csv),
+        ],
+      ];
+      const summaryOutputPaths: string[] = [];
+      for (const [name, table] of summaryTables) {
+        const summaryOutputPath = outputPath(plan, name, ".csv");
+        await writeCsvFile(summaryOutputPath, [table], csv);
+        summaryOutputPaths.push(summaryOutputPath);
+      }
+      console.log(
+        `Summary tables exported to ${summaryOutputPaths.join(", ")}`
+      );
+
+      if (combinedFiles) {
+        const summaryOutputPath = outputPath(plan, "cohort-analysis", ".csv");
+        await writeCsvFile(
+          summaryOutputPath,
+          withHead(
+            formatCohortSummarySections(summaries, tagSummaries, csv),
+            drainSpool(spools.summary!)
+          ),
+          csv
+        );
+        console.log(`Summary results exported to ${summaryOutputPath}`);
+
+        const enterpriseOutputPath = outputPath(
+          plan,
+          "cohort-analysis-enterprise",
+          ".csv"
+        );
+        await writeCsvFile(
+          enterpriseOutputPath,
+          withHead(
+            formatEnterpriseSummarySections(enterpriseSummaries, csv),
+            drainSpool(spools.enterprise!)
+          ),
+          csv
+        );
+        console.log(
+          `Enterprise-specific results exported to ${enterpriseOutputPath}`
+        );
+      }
+    }
+
+    // Write the separate archived repository report
+    if (!includeArchived && emitsReport(plan, "archived")) {
+      const archivedTables: [string, string][] = [
+        [
+          "cohort-analysis-archived-cohorts",
+          formatCohortSummaryTable(archivedSummaries, csv),
+        ],
+        [
+          "cohort-analysis-archived-enterprises",
+          formatArchivedEnterpriseTable(archivedAggregates, csv),
+        ],
+      ];
+      const archivedOutputPaths: string[] = [];
+      for (const [name, table] of archivedTables) {
+        const archivedOutputPath = outputPath(plan, name, ".csv");
+        await writeCsvFile(archivedOutputPath, [table], csv);
+        archivedOutputPaths.push(archivedOutputPath);
+      }
+      const archivedDetailsOutputPath = outputPath(
+        plan,
+        "cohort-analysis-archived-details",
+        ".csv"
+      );
+      await writeCsvFile(
+        archivedDetailsOutputPath,
+        withHead(
+          formatCsvHeader(ARCHIVED_CSV_HEADERS, csv),
+          drainSpool(spools.archivedDetails!)
+        ),
+        csv
+      );
+      archivedOutputPaths.push(archivedDetailsOutputPath);
+      console.log(
+        `Archived repository results exported to ${archivedOutputPaths.join(
+          ", "
+        )}`
+      );
+
+      if (combinedFiles) {
+        const archivedOutputPath = outputPath(
+          plan,
+          "cohort-analysis-archived",
+          ".csv"
+        );
+        await writeCsvFile(
+          archivedOutputPath,
+          withHead(
+            formatArchivedSummarySections(archivedAggregates, csv),
+            drainSpool(spools.archived!)
+          ),
+          csv
+        );
+        console.log(
+          `Archived repository results exported to ${archivedOutputPath}`
+        );
+      }
+    }
+
+    // Write the data quality report (cells that could not be parsed)
+    if (emitsReport(plan, "data-quality")) {
+      const columnsOutputPath = outputPath(
+        plan,
+        "cohort-analysis-data-quality-columns",
+        ".csv"
+      );
+      await writeCsvFile(
+        columnsOutputPath,
+        [formatDiagnosticColumnTable(columnCounts, csv)],
+        csv
+      );
+      const cellsOutputPath = outputPath(
+        plan,
+        "cohort-analysis-data-quality-cells",
+        ".csv"
+      );
+      await writeCsvFile(
+        cellsOutputPath,
+        withHead(
+          formatCsvHeader(DIAGNOSTIC_CSV_HEADERS, csv),
+          drainSpool(spools.diagnostics!)
+        ),
+        csv
+      );
+      console.log(
+        `Data quality report exported to ${columnsOutputPath}, ${cellsOutputPath}`
+      );
+
+      if (combinedFiles) {
+        const dataQualityOutputPath = outputPath(
+          plan,
+          "cohort-analysis-data-quality",
+          ".csv"
+        );
+        await writeCsvFile(
+          dataQualityOutputPath,
+          withHead(
+            formatDiagnosticSummary(columnCounts, csv),
+            drainSpool(spools.dataQuality!)
+          ),
+          csv
+        );
+        console.log(`Data quality report exported to ${dataQualityOutputPath}`);
+      }
+    }
+
+    // Write the merge report (the source row of each repository)
+    if (emitsReport(plan, "merge")) {
+      const filesOutputPath = outputPath(
+        plan,
+        "cohort-analysis-merge-files",
+        ".csv"
+      );
+      await writeCsvFile(
+        filesOutputPath,
+        [formatMergeFileTable(mergeCounts, csv)],
+        csv
+      );
+      const sourcesOutputPath = outputPath(
+        plan,
+        "cohort-analysis-merge-sources",
+        ".csv"
+      );
+      await writeCsvFile(
+        sourcesOutputPath,
+        withHead(
+          formatCsvHeader(MERGE_REPORT_CSV_HEADERS, csv),
+          drainSpool(spools.merge!)
+        ),
+        csv
+      );
+      console.log(
+        `Merge report exported to ${filesOutputPath}, ${sourcesOutputPath}`
+      );
+
+      if (combinedFiles) {
+        const mergeOutputPath = outputPath(
+          plan,
+          "cohort-analysis-merge-report",
+          ".csv"
+        );
+        await writeCsvFile(
+          mergeOutputPath,
+          withHead(
+            formatMergeSummary(mergeCounts, csv),
+            drainSpool(spools.mergeReport!)
+          ),
+          csv
+        );
+        console.log(`Merge report exported to ${mergeOutputPath}`);
+      }
+    }
+
+    // Write the input data audit as CSV and JSON
+    if (emitsReport(plan, "audit")) {
+      const checksOutputPath = outputPath(
+        plan,
+        "cohort-analysis-audit-checks",
+        ".csv"
+      );
+      await writeCsvFile(
+        checksOutputPath,
+        [formatAuditCheckTable(audit, csv)],
+        csv
+      );
+      const examplesOutputPath = outputPath(
+        plan,
+        "cohort-analysis-audit-examples",
+        ".csv"
+      );
+      await writeCsvFile(
+        examplesOutputPath,
+        [formatAuditExampleTable(audit, csv)],
+        csv
+      );
+      const auditJsonOutputPath = outputPath(
+        plan,
+        "cohort-analysis-audit",
+        ".json"
+      );
+      await writeStreamedFile(auditJsonOutputPath, [formatAuditJson(audit)]);
+      console.log(
+        `Input data audit exported to ${checksOutputPath}, ${examplesOutputPath}, ${auditJsonOutputPath}`
+      );
+
+      if (combinedFiles) {
+        const auditCsvOutputPath = outputPath(
+          plan,
+          "cohort-analysis-audit",
+          ".csv"
+        );
+        await writeCsvFile(
+          auditCsvOutputPath,
+          [formatAuditCsv(audit, csv)],
+          csv
+        );
+        console.log(`Input data audit exported to ${auditCsvOutputPath}`);
+      }
+    }
+
+    // Write the JSON report with its schema. The schema keeps its versioned
+    // name, which the report refers to
+    if (emitsReport(plan, "json")) {
+      const reportOutputPath = outputPath(
+        plan,
+        "cohort-analysis-report",
+        ".json"
+      );
+      await writeStreamedFile(
+        reportOutputPath,
+        formatReportJson(reportSections, drainSpool(spools.report!))
+      );
+      const reportSchemaOutputPath = join(plan.directory, REPORT_SCHEMA_FILE);
+      await writeStreamedFile(reportSchemaOutputPath, [
+        JSON.stringify(REPORT_JSON_SCHEMA, null, 2) + "\n",
+      ]);
+      console.log(
+        `JSON report exported to ${reportOutputPath} (schema: ${reportSchemaOutputPath})`
+      );
+    }
+
+    // Write the HTML report
+    if (emitsReport(plan, "html")) {
+      const htmlOutputPath = outputPath(
+        plan,
+        "cohort-analysis-report",
+        ".html"
+      );
+      await writeStreamedFile(
+        htmlOutputPath,
+        formatHtmlReport(reportSections, drainSpool(spools.html!))
+      );
+      console.log(`HTML report exported to ${htmlOutputPath}`);
+    }
+
+    // Write the Markdown report
+    if (emitsReport(plan, "markdown")) {
+      const markdownOutputPath = outputPath(
+        plan,
+        "cohort-analysis-report",
+        ".md"
+      );
+      await writeStreamedFile(
+        markdownOutputPath,
+        formatMarkdownReport(
+          reportSections,
+          topRepositories,
+          drainSpool(spools.markdown!),
+          config
+        )
+      );
+      console.log(`Markdown report exported to ${markdownOutputPath}`);
+    }
+
+    // Write the XLSX workbook: summaries, a sheet per enterprise, the
+    // repository details and a sheet per cohort
+    if (emitsReport(plan, "xlsx")) {
+      const xlsxOutputPath = outputPath(
+        plan,
+        "cohort-analysis-report",
+        ".xlsx"
+      );
+      await writeXlsxWorkbook(
+        xlsxOutputPath,
+        (async function* () {
+          yield* summarySheets(reportSections);
+          yield* groupedSheets(
+            drainSpool(spools.xlsxEnterprises!),
+            ENTERPRISE_SHEET_HEADERS
+          );
+          yield {
+            name: "Repository Details",
+            headers: DETAILED_CSV_HEADERS,
+            rows: parseJsonLines<XlsxCell[]>(drainSpool(spools.xlsxDetails!)),
+          };
+          yield* groupedSheets(
+            drainSpool(spools.xlsxCohorts!),
+            COHORT_SHEET_HEADERS
+          );
+        })()
+      );
+      console.log(`XLSX workbook exported to ${xlsxOutputPath}`);
+    }
 
     // Print summary to console
     console.log("\n=== OVERALL COHORT SUMMARY ===");
-    for (const summary of summaries) {
+    printCohortSummaries(summaries);
+
+    console.log("\n=== OVERALL COHORT TAG SUMMARY ===");
+    for (const summary of tagSummaries) {
       console.log(
         `${summary.cohortName.padEnd(20)} | ${summary.repositoryCount
           .toString()
@@ -847,6 +1616,14 @@ export function runCohortAnalysis(data: LoadedData): void {
       console.log(`\n--- ${enterprise.enterpriseName} ---`);
       console.log(`Total Repositories: ${enterprise.totalRepositories}`);
       console.log(`Average Weight: ${enterprise.averageWeight.toFixed(2)}`);
+      console.log(
+        `Average Complexity Score: ${enterprise.averageComplexityScore.toFixed(
+          2
+        )}`
+      );
+      console.log(
+        `Average Gap Score: ${enterprise.averageGapScore.toFixed(2)}`
+      );
       console.log("Cohort Breakdown:");
       for (const cohort of enterprise.cohortSummaries) {
         console.log(
@@ -854,12 +1631,49 @@ export function runCohortAnalysis(data: LoadedData): void {
             .toString()
             .padStart(5)} repos | Avg Weight: ${cohort.averageWeight.toFixed(
             2
+          )} | Avg Complexity: ${cohort.averageComplexityScore.toFixed(
+            2
+          )} | Avg Gap: ${cohort.averageGapScore.toFixed(2)}`
+        );
+      }
+      console.log("Cohort Tags:");
+      for (const tag of enterprise.tagSummaries) {
+        console.log(
+          `  ${tag.cohortName.padEnd(18)} | ${tag.repositoryCount
+            .toString()
+            .padStart(5)} repos`
+        );
+      }
+    }
+
+    // Print the archived repository breakdown to console
+    if (!includeArchived) {
+      const archivedCount = countRepositories(archivedSummaries);
+      console.log(
+        `\n=== ARCHIVED REPOSITORIES (${archivedCount}, excluded from the summaries above) ===`
+      );
+      for (const summary of archivedSummaries) {
+        console.log(
+          `${summary.cohortName.padEnd(20)} | ${summary.repositoryCount
+            .toString()
+            .padStart(5)} repos | Avg Weight: ${summary.averageWeight.toFixed(
+            2
           )}`
         );
       }
     }
+
+    // Print the data quality summary to console
+    console.log(`\n=== DATA QUALITY (${diagnosticCount} unparsed cells) ===`);
+    for (const [column, count] of columnCounts) {
+      console.log(
+        `${column.padEnd(40)} | ${count.toString().padStart(5)} cells`
+      );
+    }
   } catch (error) {
     console.error("Error during analysis:", error);
     throw error;
+  } finally {
+    rmSync(spoolDirectory, { recursive: true, force: true });
   }
 }
@@ -0,0 +1,406 @@
+/**
+ * Input data audit: checks the input rows, before they are classified, for
+ * problems that would otherwise be absorbed silently (duplicate repositories,
+ * blank enterprises or organizations, bad counts, unusual boolean spellings
+ * and package or Codespaces flags without a count), with totals and example
+ * rows per check
+ */
+
+import { CellDiagnostic, NormalizedRepository, RowSource } from "./types.js";
+import { NormalizedRow } from "./normalize.js";
+import { repositoryKey } from "./merge.js";
+import {
+  CsvFormat,
+  DEFAULT_CSV_FORMAT,
+  formatCsvBanner,
+  formatCsvRow,
+  formatCsvTable,
+} from "./csv.js";
+
+/**
+ * Checks run by the audit
+ */
+export type AuditCheckKey =
+  | "duplicate-key"
+  | "blank-enterprise"
+  | "blank-organization"
+  | "invalid-count"
+  | "boolean-spelling"
+  | "maven-without-count"
+  | "codespaces-without-count";
+
+/**
+ * Description of each check, in report order
+ */
+export const AUDIT_CHECKS: Record<AuditCheckKey, string> = {
+  "duplicate-key": "Row repeating a repository read from an earlier row",
+  "blank-enterprise": "Blank Enterprise (reported as Unknown)",
+  "blank-organization": "Blank Org_Name",
+  "invalid-count": "Negative or non-integer count",
+  "boolean-spelling": "Boolean in an unrecognized or nonstandard spelling",
+  "maven-without-count": "has_maven_packages set but maven_package_count is 0",
+  "codespaces-without-count": "has_codespaces set but codespace_count is blank",
+};
+
+/**
+ * Parse problems of count cells
+ */
+const INVALID_COUNT_PROBLEMS = [
+  "not a number",
+  "negative count",
+  "not a whole number",
+];
+
+/**
+ * Parse problems of boolean cells
+ */
+const BOOLEAN_PROBLEMS = ["not a boolean", "nonstandard boolean"];
+
+/**
+ * Example rows kept per check
+ */
+const MAX_AUDIT_EXAMPLES = 5;
+
+/**
+ * One problem found by the audit
+ */
+export interface AuditFinding extends RowSource {
+  check: AuditCheckKey;
+  enterprise: string;
+  repository: string;
+  column: string;
+  value: string;
+  detail: string;
+}
+
+/**
+ * Running audit totals, with the first findings of each check as examples
+ */
+export interface DataQualityAudit {
+  rowsAudited: number;
+  totals: Record<AuditCheckKey, number>;
+  examples: Record<AuditCheckKey, AuditFinding[]>;
+}
+
+/**
+ * Create an empty audit
+ */
+export function createAudit(): DataQualityAudit {
+  const checks = Object.keys(AUDIT_CHECKS) as AuditCheckKey[];
+  return {
+    rowsAudited: 0,
+    totals: Object.fromEntries(checks.map((check) => [check, 0])) as Record<
+      AuditCheckKey,
+      number
+    >,
+    examples: Object.fromEntries(
+      checks.map((check) => [check, [] as AuditFinding[]])
+    ) as Record<AuditCheckKey, AuditFinding[]>,
+  };
+}
+
+/**
+ * Count a finding, keeping it as an example while there is room
+ */
+function addFinding(
+  audit: DataQualityAudit,
+  repo: NormalizedRepository,
+  finding: Omit<AuditFinding, "enterprise" | "repository">
+): void {
+  audit.totals[finding.check] += 1;
+  const examples = audit.examples[finding.check];
+  if (examples.length < MAX_AUDIT_EXAMPLES) {
+    examples.push({
+      check: finding.check,
+      file: finding.file,
+      row: finding.row,
+      enterprise: repo.Enterprise,
+      repository: `${repo.Org_Name}/${repo.Repo_Name}`,
+      column: finding.column,
+      value: finding.value,
+      detail: finding.detail,
+    });
+  }
+}
+
+/**
+ * Check of a cell diagnostic, if the audit reports it
+ */
+function diagnosticCheck(
+  diagnostic: CellDiagnostic
+): AuditCheckKey | undefined {
+  if (INVALID_COUNT_PROBLEMS.includes(diagnostic.problem)) {
+    return "invalid-count";
+  }
+  if (BOOLEAN_PROBLEMS.includes(diagnostic.problem)) {
+    return "boolean-spelling";
+  }
+  return undefined;
+}
+
+/**
+ * Audit one input row, as read and before duplicates are merged
+ * @param row - Row with the diagnostics of its cells
+ * @param record - The row's cells as written, keyed by inventory column. When
+ * it is not known, a codespace_count of 0 stands in for a blank one.
+ */
+export function auditRow(
+  audit: DataQualityAudit,
+  row: NormalizedRow,
+  record?: Record<string, string>
+): void {
+  const { repository: repo, diagnostics } = row;
+  audit.rowsAudited += 1;
+
+  if (repo.Enterprise.trim() === "") {
+    addFinding(audit, repo, {
+      ...repo.source,
+      check: "blank-enterprise",
+      column: "Enterprise",
+      value: repo.Enterprise,
+      detail: "reported under Unknown",
+    });
+  }
+  if (repo.Org_Name.trim() === "") {
+    addFinding(audit, repo, {
+      ...repo.source,
+      check: "blank-organization",
+      column: "Org_Name",
+      value: repo.Org_Name,
+      detail: "repository has no organization",
+    });
+  }
+
+  for (const diagnostic of diagnostics) {
+    const check = diagnosticCheck(diagnostic);
+    if (check) {
+      addFinding(audit, repo, {
+        file: diagnostic.file,
+        row: diagnostic.row,
+        check,
+        column: diagnostic.column,
+        value: diagnostic.value,
+        detail: diagnostic.accepted
+          ? `${diagnostic.problem}, read as written`
+          : `${diagnostic.problem}, read as a fallback`,
+      });
+    }
+  }
+
+  if (repo.has_maven_packages && repo.maven_package_count === 0) {
+    addFinding(audit, repo, {
+      ...repo.source,
+      check: "maven-without-count",
+      column: "maven_package_count",
+      value: String(repo.maven_package_count),
+      detail: "Maven packages flagged but none counted",
+    });
+  }
+  const codespaceCount = record
+    ? (record.codespace_count ?? "").trim()
+    : repo.codespace_count === 0
+    ? ""
+    : String(repo.codespace_count);
+  if (repo.has_codespaces && codespaceCount === "") {
+    addFinding(audit, repo, {
+      ...repo.source,
+      check: "codespaces-without-count",
+      column: "codespace_count",
+      value: codespaceCount,
+      detail: "Codespaces flagged but no count given",
+    });
+  }
+}
+
+/**
+ * Audit a row naming a repository that an earlier row already named
+ * @param duplicate - Source of the repeated row
+ * @param first - Source of the earlier row
+ */
+export function auditDuplicate(
+  audit: DataQualityAudit,
+  repo: NormalizedRepository,
+  duplicate: RowSource,
+  first: RowSource
+): void {
+  addFinding(audit, repo, {
+    ...duplicate,
+    check: "duplicate-key",
+    column: "Enterprise/Org_Name/Repo_Name",
+    value: repositoryKey(repo),
+    detail: `also read from ${first.file}:${first.row}`,
+  });
+}
+
+/**
+ * Audit a row whose duplicates were already merged, as when the input was
+ * loaded whole: its cells as merged, and one duplicate-key finding per row
+ * merged into it
+ */
+export function auditMergedRow(
+  audit: DataQualityAudit,
+  row: NormalizedRow
+): void {
+  auditRow(audit, row);
+  const repo = row.repository;
+  for (const duplicate of repo.duplicates) {
+    auditDuplicate(audit, repo, duplicate, repo.source);
+  }
+}
+
+/**
+ * Total findings across every check
+ */
+export function countAuditFindings(audit: DataQualityAudit): number {
+  return Object.values(audit.totals).reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Every example finding, in check order
+ */
+function auditExamples(audit: DataQualityAudit): AuditFinding[] {
+  return (Object.keys(AUDIT_CHECKS) as AuditCheckKey[]).flatMap(
+    (check) => audit.examples[check]
+  );
+}
+
+// =============================================================================
+// REPORTS
+// =============================================================================
+
+/**
+ * Format the totals per check as a table
+ */
+export function formatAuditCheckTable(
+  audit: DataQualityAudit,
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  return formatCsvTable(
+    ["Check", "Description", "Findings"],
+    (Object.keys(AUDIT_CHECKS) as AuditCheckKey[]).map((check) => [
+      check,
+      AUDIT_CHECKS[check],
+      audit.totals[check],
+    ]),
+    format
+  );
+}
+
+/**
+ * Format the example rows of every check as a table
+ */
+export function formatAuditExampleTable(
+  audit: DataQualityAudit,
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  return formatCsvTable(
+    [
+      "Check",
+      "File",
+      "Row",
+      "Enterprise",
+      "Repository",
+      "Column",
+      "Value",
+      "Detail",
+    ],
+    auditExamples(audit).map((finding) => [
+      finding.check,
+      finding.file,
+      finding.row,
+      finding.enterprise,
+      finding.repository,
+      finding.column,
+      finding.value,
+      finding.detail,
+    ]),
+    format
+  );
+}
+
+/**
+ * Format the audit as one combined CSV: totals per check, then the example
+ * rows
+ */
+export function formatAuditCsv(
+  audit: DataQualityAudit,
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  let csv = "";
+
+  csv += formatCsvBanner("INPUT DATA AUDIT SUMMARY", format, true);
+  csv += formatCsvRow(["Rows Audited", audit.rowsAudited], format);
+  csv += formatAuditCheckTable(audit, format);
+
+  csv += formatCsvBanner("EXAMPLE ROWS", format);
+  csv += formatAuditExampleTable(audit, format);
+
+  return csv;
+}
+
+/**
+ * Audit as a plain object: totals and examples per check, in report order
+ */
+export interface AuditSummary {
+  rowsAudited: number;
+  totalFindings: number;
+  checks: {
+    check: AuditCheckKey;
+    description: string;
+    findings: number;
+    examples: AuditFinding[];
+  }[];
+}
+
+/**
+ * Summarize the audit for JSON output
+ */
+export function summarizeAudit(audit: DataQualityAudit): AuditSummary {
+  return {
+    rowsAudited: audit.rowsAudited,
+    totalFindings: countAuditFindings(audit),
+    checks: (Object.keys(AUDIT_CHECKS) as AuditCheckKey[]).map((check) => ({
+      check,
+      description: AUDIT_CHECKS[check],
+      findings: audit.totals[check],
+      examples: audit.examples[check],
+    })),
+  };
+}
+
+/**
+ * Format the audit as a JSON document
+ */
+export function formatAuditJson(audit: DataQualityAudit): string {
+  return JSON.stringify(summarizeAudit(audit), null, 2) + "\n";
+}
+
+/**
+ * Format the audit for the console: totals of the checks with findings, each
+ * with its example rows
+ */
+export function formatAuditConsole(audit: DataQualityAudit): string[] {
+  const lines = [
+    `\n=== INPUT DATA AUDIT (${audit.rowsAudited} rows, ${countAuditFindings(
+      audit
+    )} findings) ===`,
+  ];
+  for (const [check, description] of Object.entries(AUDIT_CHECKS)) {
+    const total = audit.totals[check as AuditCheckKey];
+    if (total === 0) {
+      continue;
+    }
+    lines.push(
+      `${check.padEnd(25)} | ${total.toString().padStart(5)} | ${description}`
+    );
+    for (const finding of audit.examples[check as AuditCheckKey]) {
+      lines.push(
+        `  ${finding.file}:${finding.row} ${finding.repository} | ${finding.column} "${finding.value}" - ${finding.detail}`
+      );
+    }
+  }
+  if (lines.length === 1) {
+    lines.push("No problems found");
+  }
+  return lines;
+}
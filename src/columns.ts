@@ -0,0 +1,265 @@
+/**
+ * Column mapping: reads exports whose columns are named differently by
+ * renaming their source columns to inventory columns before validation, with
+ * optional unit conversion. Mappings come from built-in presets or from JSON
+ * or YAML mapping files.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { extname } from "path";
+import { parse as parseYaml } from "yaml";
+import { ColumnMapping, ColumnMappingTarget, SizeUnit } from "./types.js";
+import { Schema, isPlainObject, validateSchema } from "./schema.js";
+import { REPOSITORY_ANALYSIS_COLUMNS } from "./adapters.js";
+import { ACTIVITY_COLUMNS } from "./normalize.js";
+
+/**
+ * Supported size units
+ */
+const SIZE_UNITS: SizeUnit[] = ["B", "KB", "MB", "GB", "TB"];
+
+/**
+ * Inventory columns holding a size, the only columns a unit can be given for
+ */
+const SIZE_COLUMNS: ColumnMappingTarget["column"][] = ["repository-disk-usage"];
+
+/**
+ * Columns a source column can be mapped to: every inventory column and the
+ * optional activity columns
+ */
+const MAPPABLE_COLUMNS: ColumnMappingTarget["column"][] = [
+  ...REPOSITORY_ANALYSIS_COLUMNS,
+  ...ACTIVITY_COLUMNS,
+];
+
+/**
+ * Schema for one entry of a mapping file, once the shorthand form (the target
+ * column name alone) is expanded
+ */
+const COLUMN_MAPPING_SCHEMA: Schema = {
+  type: "record",
+  values: {
+    type: "object",
+    properties: {
+      column: { type: "string", enum: MAPPABLE_COLUMNS },
+      unit: { type: "string", enum: SIZE_UNITS },
+    },
+    required: ["column"],
+  },
+};
+
+// =============================================================================
+// PRESETS
+// =============================================================================
+
+/**
+ * Snake-case spelling of an inventory column, e.g. "repository_disk_usage"
+ * for "repository-disk-usage" and "is_archived" for "isArchived"
+ */
+function snakeCase(column: string): string {
+  return column
+    .replace(/([a-z])([A-Z])/g, "$1_$2")
+    .replace(/-/g, "_")
+    .toLowerCase();
+}
+
+/**
+ * Built-in mappings for the exports seen most often
+ */
+export const COLUMN_PRESETS: Record<string, ColumnMapping> = {
+  // Every inventory column in lowercase snake case (repo_name,
+  // repository_disk_usage, ...)
+  "snake-case": Object.fromEntries(
+    MAPPABLE_COLUMNS.filter((column) => snakeCase(column) !== column).map(
+      (column) => [snakeCase(column), { column }]
+    )
+  ),
+
+  // repos.csv of the GitHub Enterprise Importer Azure DevOps inventory report
+  // (gh ado2gh inventory-report); team projects are read as organizations
+  "ado2gh-inventory": {
+    org: { column: "Enterprise" },
+    teamproject: { column: "Org_Name" },
+    repo: { column: "Repo_Name" },
+    "last-push-date": { column: "Last_Push" },
+    "compressed-repo-size-in-bytes": {
+      column: "repository-disk-usage",
+      unit: "B",
+    },
+  },
+
+  // repos.csv of the GitHub Enterprise Importer Bitbucket Server inventory
+  // report (gh bbs2gh inventory-report); projects are read as organizations
+  "bbs2gh-inventory": {
+    "project-key": { column: "Org_Name" },
+    repo: { column: "Repo_Name" },
+    "is-archived": { column: "isArchived" },
+    "last-commit-date": { column: "Last_Push" },
+    "repo-size-in-bytes": { column: "repository-disk-usage", unit: "B" },
+  },
+};
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/**
+ * Validate the contents of a mapping file
+ * @returns The mapping, with shorthand entries expanded
+ */
+function resolveColumnMapping(parsed: unknown, source: string): ColumnMapping {
+  // "Repository: Repo_Name" is shorthand for "Repository: { column: Repo_Name }"
+  const expanded = isPlainObject(parsed)
+    ? Object.fromEntries(
+        Object.entries(parsed).map(([header, target]) => [
+          header,
+          typeof target === "string" ? { column: target } : target,
+        ])
+      )
+    : parsed;
+
+  const errors = validateSchema(expanded ?? {}, COLUMN_MAPPING_SCHEMA);
+  if (errors.length === 0) {
+    for (const [header, target] of Object.entries(expanded as ColumnMapping)) {
+      if (target.unit && !SIZE_COLUMNS.includes(target.column)) {
+        errors.push(
+          `${header}.unit: units are only supported for ${SIZE_COLUMNS.join(
+            ", "
+          )}`
+        );
+      }
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ${source}:\n${errors.map((e) => `  - ${e}`).join("\n")}`
+    );
+  }
+
+  return (expanded ?? {}) as ColumnMapping;
+}
+
+/**
+ * Read a mapping file
+ */
+function readColumnMappingFile(filePath: string): ColumnMapping {
+  console.log(`Reading column mapping from: ${filePath}`);
+
+  let parsed: unknown;
+  try {
+    const fileContent = readFileSync(filePath, "utf-8");
+    const extension = extname(filePath).toLowerCase();
+    parsed =
+      extension === ".yaml" || extension === ".yml"
+        ? parseYaml(fileContent)
+        : JSON.parse(fileContent);
+  } catch (error) {
+    console.error(`Error reading column mapping file ${filePath}: ${error}`);
+    throw error;
+  }
+
+  return resolveColumnMapping(parsed, `column mapping file ${filePath}`);
+}
+
+/**
+ * Target of a source column, if it is mapped
+ */
+function mappedTarget(
+  mapping: ColumnMapping,
+  header: string
+): ColumnMappingTarget | undefined {
+  return Object.hasOwn(mapping, header) ? mapping[header] : undefined;
+}
+
+/**
+ * Load and combine column mappings
+ * @param specs - Preset names or paths to JSON or YAML mapping files; later
+ * mappings win for the same source column
+ * @returns Combined mapping
+ */
+export function loadColumnMapping(specs: string[]): ColumnMapping {
+  let mapping: ColumnMapping = {};
+  for (const spec of specs) {
+    if (!Object.hasOwn(COLUMN_PRESETS, spec) && !existsSync(spec)) {
+      throw new Error(
+        `Unknown column mapping: ${spec} (expected a mapping file or one of: ${Object.keys(
+          COLUMN_PRESETS
+        ).join(", ")})`
+      );
+    }
+    mapping = {
+      ...mapping,
+      ...(Object.hasOwn(COLUMN_PRESETS, spec)
+        ? COLUMN_PRESETS[spec]
+        : readColumnMappingFile(spec)),
+    };
+  }
+  return mapping;
+}
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+/**
+ * Rename the mapped columns of an input file
+ * @param headers - Column names read from the file
+ * @param mapping - Column mapping
+ * @param filePath - Path of the file, used in messages
+ * @returns Column names after mapping, in the same order
+ */
+export function mapHeaders(
+  headers: string[],
+  mapping: ColumnMapping,
+  filePath: string
+): string[] {
+  const mapped = headers.map(
+    (header) => mappedTarget(mapping, header)?.column ?? header
+  );
+
+  const renamed = headers.filter((header, index) => mapped[index] !== header);
+  if (renamed.length > 0) {
+    console.log(
+      `Mapped ${renamed.length} column(s) in ${filePath} (e.g. ${renamed
+        .slice(0, 3)
+        .map(
+          (header) => `${header} -> ${mappedTarget(mapping, header)!.column}`
+        )
+        .join(", ")})`
+    );
+  }
+
+  mapped.forEach((column, index) => {
+    const first = mapped.indexOf(column);
+    if (first !== index) {
+      throw new Error(
+        `Input file ${filePath} has more than one column read as "${column}" (${headers[first]}, ${headers[index]}); check the column mapping`
+      );
+    }
+  });
+
+  return mapped;
+}
+
+/**
+ * Rename the mapped cells of a raw row. Plain numbers in a column mapped
+ * with a unit are given that unit, which the size parser converts.
+ */
+export function mapRecord(
+  record: Record<string, string>,
+  mapping: ColumnMapping
+): Record<string, string> {
+  const mapped: Record<string, string> = {};
+  for (const [header, value] of Object.entries(record)) {
+    const target = mappedTarget(mapping, header);
+    if (!target) {
+      mapped[header] = value;
+      continue;
+    }
+    mapped[target.column] =
+      target.unit && /^\d+(?:\.\d+)?$/.test(value.trim().replace(/,/g, ""))
+        ? `${value.trim()} ${target.unit}`
+        : value;
+  }
+  return mapped;
+}
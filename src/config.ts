@@ -0,0 +1,434 @@
+/**
+ * Analysis configuration: built-in defaults, schema validation and loading of
+ * per-engagement profiles from JSON or YAML files
+ */
+
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { parse as parseYaml } from "yaml";
+import { AnalysisConfig, MatrixBand } from "./types.js";
+import { Schema, isPlainObject, validateSchema } from "./schema.js";
+import { RULES_SCHEMA } from "./rules.js";
+import { defaultEnabledFeatures, defaultFeatureWeights } from "./features.js";
+import { CSV_DELIMITERS } from "./csv.js";
+
+// =============================================================================
+// DEFAULT CONFIGURATION
+// =============================================================================
+
+/**
+ * Default configuration for migration analysis weights and thresholds
+ */
+export const DEFAULT_CONFIG: AnalysisConfig = {
+  // Weight values for different migration blockers (higher = more complex),
+  // defined alongside each feature in the feature registry
+  WEIGHTS: defaultFeatureWeights(),
+
+  // Features scored in the analysis; the remaining inventory columns are off by default
+  ENABLED_FEATURES: defaultEnabledFeatures(),
+
+  // Count-based weight scaling per feature (flat when not listed)
+  SCALING: {},
+
+  // Thresholds for cohort assignment
+  THRESHOLDS: {
+    CLEAN_REPO_MAX_WEIGHT: 0,
+    LOW_COMPLEXITY_MAX_WEIGHT: 10,
+    MEDIUM_COMPLEXITY_MAX_WEIGHT: 25,
+  },
+
+  // Enable/disable specific analysis features
+  FEATURES: {
+    INCLUDE_ARCHIVED_IN_MAIN_ANALYSIS: false,
+    SEPARATE_MAVEN_COHORT: true,
+    SEPARATE_CODESPACE_COHORT: true,
+    SEPARATE_MACOS_COHORT: true,
+    SEPARATE_UNMIGRATABLE_COHORT: false, // Temporarily disabled to see other cohorts
+    MATRIX_CLASSIFICATION: false, // Classify on complexity x gap instead of weight bands
+    SEPARATE_DORMANT_COHORT: false, // Dormant repositories are only tagged
+  },
+
+  // Activity signals, from the optional Last_Push and Created columns
+  ACTIVITY: {
+    DORMANT_AFTER_DAYS: 730,
+    ARCHIVE_THEN_MIGRATE_MIN_WEIGHT: 25,
+  },
+
+  // Length of the lists in the Markdown report
+  MARKDOWN: {
+    TOP_COMPLEX_PER_ENTERPRISE: 5,
+    MAX_REPOSITORIES_PER_COHORT: 50,
+    COLLAPSE_AFTER: 10,
+  },
+
+  // How CSV files are written
+  CSV: {
+    DELIMITER: ",",
+    BOM: false,
+    LINE_ENDING: "LF",
+    COMBINED_FILES: false, // cohort-analysis.csv, -enterprise.csv and -archived.csv
+  },
+
+  // Complexity score x gap score matrix used when MATRIX_CLASSIFICATION is on
+  MATRIX: {
+    COMPLEXITY_BANDS: [
+      { name: "CLEAN", max: 0 },
+      { name: "LOW", max: 10 },
+      { name: "MEDIUM", max: 25 },
+      { name: "HIGH" },
+    ],
+    GAP_BANDS: [{ name: "NO_GAPS", max: 0 }, { name: "HAS_GAPS" }],
+    COHORTS: {
+      "CLEAN/NO_GAPS": "CLEAN",
+      "LOW/NO_GAPS": "LOW_COMPLEXITY",
+      "MEDIUM/NO_GAPS": "MEDIUM_COMPLEXITY",
+      "HIGH/NO_GAPS": "HIGH_COMPLEXITY",
+      "CLEAN/HAS_GAPS": "GAPS_ONLY",
+      "LOW/HAS_GAPS": "LOW_COMPLEXITY_WITH_GAPS",
+      "MEDIUM/HAS_GAPS": "MEDIUM_COMPLEXITY_WITH_GAPS",
+      "HIGH/HAS_GAPS": "HIGH_COMPLEXITY_WITH_GAPS",
+    },
+  },
+};
+
+// =============================================================================
+// CONFIGURATION SCHEMA
+// =============================================================================
+
+/**
+ * Build an object schema whose keys all share the same value schema
+ */
+function objectOf(keys: string[], valueSchema: Schema): Schema {
+  return {
+    type: "object",
+    properties: Object.fromEntries(keys.map((key) => [key, valueSchema])),
+  };
+}
+
+/**
+ * Schema for a feature's weight scaling
+ */
+const SCALING_SCHEMA: Schema = {
+  type: "union",
+  discriminator: "mode",
+  variants: {
+    flat: { type: "object", properties: { mode: { type: "string" } } },
+    perUnit: {
+      type: "object",
+      properties: {
+        mode: { type: "string" },
+        cap: { type: "number", minimum: 0 },
+      },
+    },
+    logarithmic: {
+      type: "object",
+      properties: {
+        mode: { type: "string" },
+        cap: { type: "number", minimum: 0 },
+      },
+    },
+    tiers: {
+      type: "object",
+      properties: {
+        mode: { type: "string" },
+        tiers: {
+          type: "array",
+          minItems: 1,
+          items: {
+            type: "object",
+            properties: {
+              min: { type: "number", minimum: 0 },
+              max: { type: "number", minimum: 0 },
+              weight: { type: "number", minimum: 0 },
+            },
+            required: ["min", "weight"],
+          },
+        },
+      },
+      required: ["tiers"],
+    },
+  },
+};
+
+/**
+ * Schema for the bands of a classification matrix axis
+ */
+const MATRIX_BANDS_SCHEMA: Schema = {
+  type: "array",
+  minItems: 1,
+  items: {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1 },
+      max: { type: "number", minimum: 0 },
+    },
+    required: ["name"],
+  },
+};
+
+/**
+ * Schema for configuration files. Every key is optional; omitted keys fall
+ * back to DEFAULT_CONFIG.
+ */
+export const CONFIG_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    WEIGHTS: objectOf(Object.keys(DEFAULT_CONFIG.WEIGHTS), {
+      type: "number",
+      minimum: 0,
+    }),
+    ENABLED_FEATURES: objectOf(Object.keys(DEFAULT_CONFIG.WEIGHTS), {
+      type: "boolean",
+    }),
+    SCALING: objectOf(Object.keys(DEFAULT_CONFIG.WEIGHTS), SCALING_SCHEMA),
+    THRESHOLDS: objectOf(Object.keys(DEFAULT_CONFIG.THRESHOLDS), {
+      type: "number",
+      minimum: 0,
+    }),
+    FEATURES: objectOf(Object.keys(DEFAULT_CONFIG.FEATURES), {
+      type: "boolean",
+    }),
+    ACTIVITY: {
+      type: "object",
+      properties: {
+        DORMANT_AFTER_DAYS: { type: "number", minimum: 0, integer: true },
+        ARCHIVE_THEN_MIGRATE_MIN_WEIGHT: { type: "number", minimum: 0 },
+        AS_OF: { type: "string", minLength: 1 },
+      },
+    },
+    MARKDOWN: {
+      type: "object",
+      properties: {
+        TOP_COMPLEX_PER_ENTERPRISE: {
+          type: "number",
+          minimum: 0,
+          integer: true,
+        },
+        MAX_REPOSITORIES_PER_COHORT: {
+          type: "number",
+          minimum: 0,
+          integer: true,
+        },
+        COLLAPSE_AFTER: { type: "number", minimum: 0, integer: true },
+      },
+    },
+    CSV: {
+      type: "object",
+      properties: {
+        DELIMITER: { type: "string", minLength: 1 },
+        BOM: { type: "boolean" },
+        LINE_ENDING: { type: "string", enum: ["LF", "CRLF"] },
+        COMBINED_FILES: { type: "boolean" },
+      },
+    },
+    MATRIX: {
+      type: "object",
+      properties: {
+        COMPLEXITY_BANDS: MATRIX_BANDS_SCHEMA,
+        GAP_BANDS: MATRIX_BANDS_SCHEMA,
+        COHORTS: { type: "record", values: { type: "string", minLength: 1 } },
+      },
+    },
+    RULES: RULES_SCHEMA,
+  },
+};
+
+// =============================================================================
+// VALIDATION AND MERGING
+// =============================================================================
+
+/**
+ * Validate that matrix bands are ascending and that only the last band is
+ * open-ended
+ */
+function validateMatrixBands(bands: MatrixBand[], path: string): string[] {
+  const errors: string[] = [];
+
+  bands.forEach((band, index) => {
+    const isLast = index === bands.length - 1;
+    const previous = bands[index - 1];
+    if (isLast && band.max !== undefined) {
+      errors.push(`${path}[${index}]: the last band must not have a max`);
+    }
+    if (!isLast && band.max === undefined) {
+      errors.push(`${path}[${index}]: only the last band may omit max`);
+    }
+    if (
+      previous?.max !== undefined &&
+      band.max !== undefined &&
+      band.max <= previous.max
+    ) {
+      errors.push(
+        `${path}[${index}]: max must be greater than the previous band`
+      );
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate a resolved configuration for constraints that span several keys
+ * @param config - Resolved configuration
+ * @param overrides - Configuration file contents, used to check only the
+ * matrix cells the file maps (default mappings for unused cells are ignored)
+ */
+function validateConsistency(
+  config: AnalysisConfig,
+  overrides: Partial<AnalysisConfig>
+): string[] {
+  const errors: string[] = [];
+  const thresholds = config.THRESHOLDS;
+
+  if (thresholds.CLEAN_REPO_MAX_WEIGHT > thresholds.LOW_COMPLEXITY_MAX_WEIGHT) {
+    errors.push(
+      "THRESHOLDS.CLEAN_REPO_MAX_WEIGHT: must not exceed LOW_COMPLEXITY_MAX_WEIGHT"
+    );
+  }
+  if (
+    thresholds.LOW_COMPLEXITY_MAX_WEIGHT >
+    thresholds.MEDIUM_COMPLEXITY_MAX_WEIGHT
+  ) {
+    errors.push(
+      "THRESHOLDS.LOW_COMPLEXITY_MAX_WEIGHT: must not exceed MEDIUM_COMPLEXITY_MAX_WEIGHT"
+    );
+  }
+
+  const asOf = config.ACTIVITY.AS_OF;
+  if (asOf !== undefined && isNaN(Date.parse(asOf))) {
+    errors.push("ACTIVITY.AS_OF: not a date (expected YYYY-MM-DD)");
+  }
+
+  if (!CSV_DELIMITERS.includes(config.CSV.DELIMITER)) {
+    errors.push(
+      `CSV.DELIMITER: must be one of ${CSV_DELIMITERS.map((delimiter) =>
+        JSON.stringify(delimiter)
+      ).join(", ")} (got ${JSON.stringify(config.CSV.DELIMITER)})`
+    );
+  }
+
+  errors.push(
+    ...validateMatrixBands(
+      config.MATRIX.COMPLEXITY_BANDS,
+      "MATRIX.COMPLEXITY_BANDS"
+    ),
+    ...validateMatrixBands(config.MATRIX.GAP_BANDS, "MATRIX.GAP_BANDS")
+  );
+  const cells = new Set(
+    config.MATRIX.COMPLEXITY_BANDS.flatMap((complexity) =>
+      config.MATRIX.GAP_BANDS.map((gap) => `${complexity.name}/${gap.name}`)
+    )
+  );
+  for (const cell of Object.keys(overrides.MATRIX?.COHORTS ?? {})) {
+    if (!cells.has(cell)) {
+      errors.push(
+        `MATRIX.COHORTS.${cell}: unknown matrix cell (expected "<complexity band>/<gap band>")`
+      );
+    }
+  }
+
+  for (const [key, scaling] of Object.entries(config.SCALING)) {
+    if (scaling.mode !== "tiers") continue;
+    scaling.tiers.forEach((tier, index) => {
+      if (tier.max !== undefined && tier.max < tier.min) {
+        errors.push(
+          `SCALING.${key}.tiers[${index}]: max must not be below min`
+        );
+      }
+      const previous = scaling.tiers[index - 1];
+      if (
+        previous &&
+        (previous.max === undefined || tier.min <= previous.max)
+      ) {
+        errors.push(
+          `SCALING.${key}.tiers[${index}]: overlaps the previous tier (tiers must be in ascending order)`
+        );
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Deep-merge a partial configuration over a base configuration.
+ * Nested objects are merged key by key; any other value replaces the base value.
+ */
+function mergeDeep(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined ? base : override;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = mergeDeep(base[key], value);
+  }
+  return merged;
+}
+
+/**
+ * Validate a partial configuration and merge it over the defaults
+ * @param overrides - Parsed configuration file contents
+ * @param source - Name of the configuration source, used in error messages
+ * @returns Fully resolved configuration
+ */
+export function resolveConfig(
+  overrides: unknown,
+  source: string = "configuration"
+): AnalysisConfig {
+  const schemaErrors = validateSchema(overrides ?? {}, CONFIG_SCHEMA);
+  if (schemaErrors.length > 0) {
+    throw new Error(
+      `Invalid ${source}:\n${schemaErrors.map((e) => `  - ${e}`).join("\n")}`
+    );
+  }
+
+  const config = mergeDeep(DEFAULT_CONFIG, overrides ?? {}) as AnalysisConfig;
+
+  const consistencyErrors = validateConsistency(
+    config,
+    (overrides ?? {}) as Partial<AnalysisConfig>
+  );
+  if (consistencyErrors.length > 0) {
+    throw new Error(
+      `Invalid ${source}:\n${consistencyErrors
+        .map((e) => `  - ${e}`)
+        .join("\n")}`
+    );
+  }
+
+  return config;
+}
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/**
+ * Loads a configuration profile from a JSON or YAML file and merges it over
+ * the defaults
+ * @param filePath - Path to a .json, .yaml or .yml configuration file
+ * @returns Fully resolved configuration
+ */
+export function loadConfig(filePath?: string): AnalysisConfig {
+  if (!filePath) {
+    return DEFAULT_CONFIG;
+  }
+
+  console.log(`Reading analysis configuration from: ${filePath}`);
+
+  let parsed: unknown;
+  try {
+    const fileContent = readFileSync(filePath, "utf-8");
+    const extension = extname(filePath).toLowerCase();
+    parsed =
+      extension === ".yaml" || extension === ".yml"
+        ? parseYaml(fileContent)
+        : JSON.parse(fileContent);
+  } catch (error) {
+    console.error(`Error reading configuration file ${filePath}: ${error}`);
+    throw error;
+  }
+
+  return resolveConfig(parsed, `configuration file ${filePath}`);
+}
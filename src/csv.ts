@@ -0,0 +1,149 @@
+/**
+ * CSV output: one RFC 4180 serializer for every CSV file the tool writes,
+ * with the delimiter, byte order mark and line ending set in the CSV section
+ * of the configuration
+ */
+
+import { AnalysisConfig } from "./types.js";
+import { writeStreamedFile } from "./stream.js";
+
+/**
+ * Value of a CSV field; null leaves the field empty
+ */
+export type CsvCell = string | number | boolean | null;
+
+/**
+ * How CSV files are written
+ */
+export interface CsvFormat {
+  delimiter: string;
+  // Start each file with a UTF-8 byte order mark
+  bom: boolean;
+  // Record separator
+  lineEnding: string;
+}
+
+/**
+ * Delimiters a CSV format can use. Others, such as "." or digits, could be
+ * read as part of the numbers written bare.
+ */
+export const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+/**
+ * Comma-separated, LF line endings, no byte order mark
+ */
+export const DEFAULT_CSV_FORMAT: CsvFormat = {
+  delimiter: ",",
+  bom: false,
+  lineEnding: "\n",
+};
+
+/**
+ * CSV format of a configuration
+ */
+export function csvFormat(config: AnalysisConfig): CsvFormat {
+  return {
+    delimiter: config.CSV.DELIMITER,
+    bom: config.CSV.BOM,
+    lineEnding: config.CSV.LINE_ENDING === "CRLF" ? "\r\n" : "\n",
+  };
+}
+
+/**
+ * Quote a field, doubling the quotes inside it
+ */
+function quote(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Whether a field has to be quoted to be read back as written
+ */
+function needsQuotes(value: string, format: CsvFormat): boolean {
+  return (
+    value.includes(format.delimiter) ||
+    /["\r\n]/.test(value) ||
+    value.trim() !== value
+  );
+}
+
+/**
+ * Format one record. Text fields are always quoted, so spreadsheets keep
+ * values such as "00123" as text; numbers and booleans are written bare.
+ */
+export function formatCsvRow(
+  cells: CsvCell[],
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  return (
+    cells
+      .map((cell) =>
+        cell === null ? "" : typeof cell === "string" ? quote(cell) : `${cell}`
+      )
+      .join(format.delimiter) + format.lineEnding
+  );
+}
+
+/**
+ * Format a header record, quoting only the names that need it
+ */
+export function formatCsvHeader(
+  headers: string[],
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  return (
+    headers
+      .map((header) => (needsQuotes(header, format) ? quote(header) : header))
+      .join(format.delimiter) + format.lineEnding
+  );
+}
+
+/**
+ * Format a table: the header record, then one record per row
+ */
+export function formatCsvTable(
+  headers: string[],
+  rows: CsvCell[][],
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  return (
+    formatCsvHeader(headers, format) +
+    rows.map((row) => formatCsvRow(row, format)).join("")
+  );
+}
+
+/**
+ * Format the "=== TITLE ===" line that opens a section of a combined file,
+ * preceded by a blank line unless it opens the file. The line is quoted when
+ * the title, such as an enterprise name, holds a delimiter or quote.
+ */
+export function formatCsvBanner(
+  title: string,
+  format: CsvFormat = DEFAULT_CSV_FORMAT,
+  first = false
+): string {
+  const banner = `=== ${title} ===`;
+  return `${first ? "" : format.lineEnding}${
+    needsQuotes(banner, format) ? quote(banner) : banner
+  }${format.lineEnding}`;
+}
+
+/**
+ * Write a CSV file from chunks of records, starting it with a byte order
+ * mark when the format asks for one
+ */
+export async function writeCsvFile(
+  filePath: string,
+  chunks: Iterable<string> | AsyncIterable<string>,
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): Promise<void> {
+  await writeStreamedFile(
+    filePath,
+    format.bom
+      ? (async function* () {
+          yield "\uFEFF";
+          yield* chunks;
+        })()
+      : chunks
+  );
+}
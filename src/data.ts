@@ -1,66 +1,415 @@
-import { readFileSync } from "fs";
-import { parse } from "csv-parse/sync";
-import { RepositoryAnalysis } from "./types.js";
+import {
+  CellDiagnostic,
+  ColumnMapping,
+  DuplicatePolicy,
+  HeaderValidationMode,
+  InputFileFormat,
+  NormalizedRepository,
+} from "./types.js";
+import {
+  formatHeaderReport,
+  hasHeaderIssues,
+  validateHeaders,
+} from "./headers.js";
+import {
+  NormalizationResult,
+  NormalizedRow,
+  isUnparsed,
+  normalizeRepositories,
+} from "./normalize.js";
+import { InputAdapter, detectInputAdapter } from "./adapters.js";
+import { mergeRowStream, mergeRows, repositorySources } from "./merge.js";
+import { resolveInputPaths } from "./inputs.js";
+import { DataQualityAudit, auditDuplicate, auditRow } from "./audit.js";
+import { loadColumnMapping, mapHeaders, mapRecord } from "./columns.js";
+import {
+  detectInputFormat,
+  readCsvFile,
+  readInputFile,
+  streamInputRecords,
+} from "./readers.js";
+import {
+  DETAIL_JOIN_COLUMNS,
+  DetailFiles,
+  DetailIndex,
+  joinRepositoryDetails,
+  summarizeCodespacesUsage,
+  summarizeMacOsRunners,
+  summarizeMavenPackages,
+  warnUnmatchedDetails,
+} from "./details.js";
+import {
+  CodespaceDetail,
+  MacOsRunnerDetail,
+  PackageDetail,
+} from "./archived/types.js";
 
 /**
- * Generic function to read and parse CSV files
- * @param filePath - Path to the CSV file
- * @returns Array of parsed CSV rows
+ * Default location of the repository analysis input file
  */
-function readCsvFile<T>(filePath: string): T[] {
-  try {
-    let fileContent = readFileSync(filePath, "utf-8");
+export const DEFAULT_INPUT_PATH = "data/repository_analysis_all.csv";
 
-    // Remove BOM if present
-    if (fileContent.charCodeAt(0) === 0xfeff) {
-      fileContent = fileContent.slice(1);
-    }
+/**
+ * Detect the format of an input file from its header row and check the
+ * headers against the columns of that format
+ * @param headers - Column names read from the file, after column mapping
+ * @param filePath - Path of the file, used in messages
+ * @param mode - strict throws on any mismatch; lenient logs a warning
+ * @returns Adapter for the detected input format
+ */
+function checkHeaders(
+  headers: string[],
+  filePath: string,
+  mode: HeaderValidationMode
+): InputAdapter {
+  const adapter = detectInputAdapter(headers);
+  if (adapter.name !== "repository-analysis") {
+    console.log(`Detected ${adapter.name} input format in ${filePath}`);
+  }
 
-    const records = parse(fileContent, {
-      columns: true, // Use first row as headers
-      skip_empty_lines: true,
-      trim: true,
-    });
+  const report = validateHeaders(
+    headers,
+    adapter.columns,
+    adapter.optionalColumns
+  );
+  if (!hasHeaderIssues(report)) {
+    return adapter;
+  }
 
-    return records as T[];
-  } catch (error) {
-    console.error(`Error reading CSV file ${filePath}: ${error}`);
-    throw error;
+  const details = formatHeaderReport(report)
+    .map((line) => `  - ${line}`)
+    .join("\n");
+  if (mode === "strict") {
+    throw new Error(
+      `Input file ${filePath} does not match the expected columns:\n${details}`
+    );
   }
+  console.warn(
+    `Warning: input file ${filePath} does not match the expected columns (missing values are read as empty):\n${details}`
+  );
+  return adapter;
 }
 
 /**
- * Reads the unified repository analysis data from CSV file
+ * Reads the unified repository analysis data from a CSV, JSON or NDJSON file
+ * and normalizes it
  * @param filePath - Path to the repository_analysis_all.csv file
- * @returns Array of RepositoryAnalysis objects
+ * @param options - Optional header mode, file format and column mapping
+ * @returns Normalized repositories and the cells that could not be parsed
  */
 export function readRepositoryAnalysis(
-  filePath: string = "data/repository_analysis_all.csv"
-): RepositoryAnalysis[] {
+  filePath: string = DEFAULT_INPUT_PATH,
+  options: FileReadOptions = {}
+): NormalizationResult {
   console.log(`Reading repository analysis data from: ${filePath}`);
-  const data = readCsvFile<RepositoryAnalysis>(filePath);
-  console.log(`Loaded ${data.length} repository records`);
-  return data;
+  const { headers, rows, lineNumbers } = readInputFile(
+    filePath,
+    detectInputFormat(filePath, options.format)
+  );
+  const columnMapping = options.columnMapping ?? {};
+  const adapter = checkHeaders(
+    mapHeaders(headers, columnMapping, filePath),
+    filePath,
+    options.headerMode ?? "lenient"
+  );
+  const result = normalizeRepositories(
+    rows.map((row) => mapRecord(row, columnMapping)),
+    filePath,
+    lineNumbers,
+    adapter.normalize
+  );
+  logReadTotals(rows.length, result.diagnostics.filter(isUnparsed).length);
+  return result;
+}
+
+/**
+ * Log the totals of a finished read
+ */
+function logReadTotals(rowCount: number, diagnosticCount: number): void {
+  console.log(`Loaded ${rowCount} repository records`);
+  if (diagnosticCount > 0) {
+    console.warn(
+      `Warning: ${diagnosticCount} cell(s) could not be parsed and were read as 0 or false (see the data quality report)`
+    );
+  }
+}
+
+/**
+ * Streams the unified repository analysis data from a CSV, JSON or NDJSON
+ * file, normalizing one row at a time so memory use does not grow with the
+ * size of the file (JSON arrays are parsed whole)
+ * @param filePath - Path to the repository_analysis_all.csv file
+ * @param options - Optional header mode, file format, column mapping and audit
+ * @returns Normalized rows with their parse diagnostics, in file order
+ */
+export async function* streamRepositoryAnalysis(
+  filePath: string = DEFAULT_INPUT_PATH,
+  options: FileReadOptions = {}
+): AsyncGenerator<NormalizedRow> {
+  console.log(`Streaming repository analysis data from: ${filePath}`);
+
+  // The columns are reported before any row, so the format is known by the
+  // time rows are normalized
+  const columnMapping = options.columnMapping ?? {};
+  let adapter: InputAdapter | undefined;
+  const records = streamInputRecords(
+    filePath,
+    detectInputFormat(filePath, options.format),
+    (headers) => {
+      adapter = checkHeaders(
+        mapHeaders(headers, columnMapping, filePath),
+        filePath,
+        options.headerMode ?? "lenient"
+      );
+    }
+  );
+
+  let rowCount = 0;
+  let diagnosticCount = 0;
+  try {
+    for await (const { record, row } of records) {
+      const diagnostics: CellDiagnostic[] = [];
+      const mapped = mapRecord(record, columnMapping);
+      const repository = adapter!.normalize(
+        mapped,
+        { file: filePath, row },
+        diagnostics
+      );
+      if (options.audit) {
+        auditRow(options.audit, { repository, diagnostics }, mapped);
+      }
+      rowCount++;
+      diagnosticCount += diagnostics.filter(isUnparsed).length;
+      yield { repository, diagnostics };
+    }
+  } catch (error) {
+    console.error(`Error reading input file ${filePath}: ${error}`);
+    throw error;
+  }
+
+  logReadTotals(rowCount, diagnosticCount);
+}
+
+/**
+ * Streams and merges the repository analysis data of several input files.
+ * Rows for the same repository are resolved by the duplicate policy.
+ * @param inputs - Files, directories or glob patterns (default: the
+ * repository_analysis_all.csv file in data/)
+ * @param options - Optional loading options
+ * @returns Merged normalized rows, in the order repositories were first read
+ */
+export async function* streamRepositoryInputs(
+  inputs: string[] = [],
+  options: LoadOptions = {}
+): AsyncGenerator<NormalizedRow> {
+  const paths = resolveInputPaths(
+    inputs.length > 0 ? inputs : [DEFAULT_INPUT_PATH]
+  );
+  if (paths.length > 1) {
+    console.log(`Merging ${paths.length} input files`);
+  }
+
+  const readOptions = fileReadOptions(options);
+  const details = readDetailFiles(options.detailFiles);
+
+  async function* readAll(): AsyncGenerator<NormalizedRow> {
+    for (const path of paths) {
+      yield* streamRepositoryAnalysis(path, readOptions);
+    }
+  }
+  const { audit } = options;
+  const merged = mergeRowStream(
+    readAll(),
+    options.duplicatePolicy ?? DEFAULT_DUPLICATE_POLICY,
+    audit &&
+      ((row, first) =>
+        auditDuplicate(audit, row.repository, row.repository.source, first))
+  );
+  for await (const row of merged) {
+    yield {
+      ...row,
+      repository: joinRepositoryDetails(row.repository, details),
+    };
+  }
+  warnUnmatchedDetails(details);
+}
+
+/**
+ * Reads an optional detail file, checking it has the column its rows are
+ * joined on
+ */
+function readDetailFile<T>(filePath: string, joinColumn: string): T[] {
+  console.log(`Reading detail data from: ${filePath}`);
+  const { headers, rows } = readCsvFile<T>(filePath);
+  if (!headers.includes(joinColumn)) {
+    throw new Error(
+      `Detail file ${filePath} has no "${joinColumn}" column to join repositories on`
+    );
+  }
+  console.log(`Loaded ${rows.length} detail records`);
+  return rows;
+}
+
+/**
+ * Reads the detail files given and summarizes them per repository
+ * @param files - Paths of the optional detail files
+ * @returns Detail summaries to join to the repositories
+ */
+export function readDetailFiles(files: DetailFiles = {}): DetailIndex {
+  const index: DetailIndex = {};
+
+  if (files.mavenPackages) {
+    index.maven = summarizeMavenPackages(
+      files.mavenPackages,
+      readDetailFile<PackageDetail>(
+        files.mavenPackages,
+        DETAIL_JOIN_COLUMNS.mavenPackages
+      )
+    );
+  }
+  if (files.codespacesUsage) {
+    index.codespaces = summarizeCodespacesUsage(
+      files.codespacesUsage,
+      readDetailFile<CodespaceDetail>(
+        files.codespacesUsage,
+        DETAIL_JOIN_COLUMNS.codespacesUsage
+      )
+    );
+  }
+  if (files.macosRunners) {
+    index.macosRunners = summarizeMacOsRunners(
+      files.macosRunners,
+      readDetailFile<MacOsRunnerDetail>(
+        files.macosRunners,
+        DETAIL_JOIN_COLUMNS.macosRunners
+      )
+    );
+  }
+
+  return index;
 }
 
 /**
- * Interface for the loaded data (simplified for single file approach)
+ * Replay loaded data as normalized rows, each with its own diagnostics
+ */
+export function* loadedDataRows(data: LoadedData): Generator<NormalizedRow> {
+  const rowKey = (source: { file: string; row: number }) =>
+    `${source.file}:${source.row}`;
+  const diagnosticsByRow = new Map<string, CellDiagnostic[]>();
+  for (const diagnostic of data.diagnostics) {
+    const key = rowKey(diagnostic);
+    diagnosticsByRow.set(key, [
+      ...(diagnosticsByRow.get(key) ?? []),
+      diagnostic,
+    ]);
+  }
+
+  for (const repository of data.repositories) {
+    yield {
+      repository,
+      diagnostics: repositorySources(repository).flatMap(
+        (source) => diagnosticsByRow.get(rowKey(source)) ?? []
+      ),
+    };
+  }
+}
+
+/**
+ * Interface for the loaded data, merged from one or more input files
  */
 export interface LoadedData {
-  repositories: RepositoryAnalysis[];
+  repositories: NormalizedRepository[];
+  // Cells that could not be parsed during normalization
+  diagnostics: CellDiagnostic[];
+}
+
+/**
+ * Options for reading one input file
+ */
+export interface FileReadOptions {
+  // How header mismatches are handled (default: lenient)
+  headerMode?: HeaderValidationMode;
+  // Format of the file (default: from the file extension)
+  format?: InputFileFormat;
+  // Source columns read as inventory columns (default: none)
+  columnMapping?: ColumnMapping;
+  // Audit every row is checked against as it is read (default: none)
+  audit?: DataQualityAudit;
 }
 
 /**
- * Loads all data from the single CSV file
- * @param filePath - Optional custom path to the CSV file
+ * Options for loading input data
+ */
+export interface LoadOptions {
+  // How header mismatches are handled (default: lenient)
+  headerMode?: HeaderValidationMode;
+  // Format of the input files (default: from each file's extension)
+  format?: InputFileFormat;
+  // Column mapping presets or mapping files, combined in order
+  columnMappings?: string[];
+  // How rows for the same repository are resolved (default: last-wins)
+  duplicatePolicy?: DuplicatePolicy;
+  // Optional Maven package, Codespaces usage and macOS runner detail files
+  detailFiles?: DetailFiles;
+  // Audit the input rows are checked against, before duplicates are merged
+  // (default: none)
+  audit?: DataQualityAudit;
+}
+
+/**
+ * Resolve the options each input file is read with, loading the column
+ * mappings
+ */
+function fileReadOptions(options: LoadOptions): FileReadOptions {
+  return {
+    ...(options.headerMode && { headerMode: options.headerMode }),
+    ...(options.format && { format: options.format }),
+    ...(options.audit && { audit: options.audit }),
+    columnMapping: loadColumnMapping(options.columnMappings ?? []),
+  };
+}
+
+/**
+ * Duplicate policy used when none is given
+ */
+const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = "last-wins";
+
+/**
+ * Loads and merges all data from the input files
+ * @param inputs - Optional files, directories or glob patterns (default: the
+ * repository_analysis_all.csv file in data/)
+ * @param options - Optional loading options
  * @returns Object containing loaded repository data
  */
-export function loadData(filePath?: string): LoadedData {
+export function loadData(
+  inputs: string | string[] = [],
+  options: LoadOptions = {}
+): LoadedData {
   try {
-    const repositories = readRepositoryAnalysis(filePath);
+    const inputList = typeof inputs === "string" ? [inputs] : inputs;
+    const paths = resolveInputPaths(
+      inputList.length > 0 ? inputList : [DEFAULT_INPUT_PATH]
+    );
+
+    const readOptions = fileReadOptions(options);
+    const details = readDetailFiles(options.detailFiles);
+    const rows: NormalizedRow[] = [];
+    for (const path of paths) {
+      rows.push(...loadedDataRows(readRepositoryAnalysis(path, readOptions)));
+    }
+    const merged = mergeRows(
+      rows,
+      options.duplicatePolicy ?? DEFAULT_DUPLICATE_POLICY
+    );
+
+    const repositories = merged.map((row) =>
+      joinRepositoryDetails(row.repository, details)
+    );
+    warnUnmatchedDetails(details);
 
     return {
       repositories,
+      diagnostics: merged.flatMap((row) => row.diagnostics),
     };
   } catch (error) {
     console.error("Error loading data:", error);
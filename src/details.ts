@@ -0,0 +1,393 @@
+/**
+ * Optional detail files: Maven packages, Codespaces usage and macOS runner
+ * minutes, summarized per repository and joined to the inventory by
+ * repository name
+ */
+
+import {
+  CodespaceDetail,
+  MacOsRunnerDetail,
+  PackageDetail,
+} from "./archived/types.js";
+import {
+  CodespacesUsageSummary,
+  MacOsRunnerSummary,
+  MavenPackageSummary,
+  NormalizedRepository,
+} from "./types.js";
+import { parseCount } from "./utils.js";
+
+/**
+ * Paths of the optional detail files
+ */
+export interface DetailFiles {
+  mavenPackages?: string;
+  codespacesUsage?: string;
+  macosRunners?: string;
+}
+
+/**
+ * Column of each detail file naming the repository a row belongs to
+ */
+export const DETAIL_JOIN_COLUMNS = {
+  mavenPackages: "Repo Name",
+  codespacesUsage: "Repository Name",
+  macosRunners: "Source repository",
+} as const satisfies Record<keyof DetailFiles, string>;
+
+/**
+ * Per-repository summaries of one detail file, keyed by the lowercased
+ * repository name as written in the file ("repo" or "org/repo")
+ */
+interface DetailSummaries<T> {
+  file: string;
+  summaries: Map<string, T>;
+  // Keys joined to at least one repository
+  matched: Set<string>;
+  // Bare "repo" keys with the repositories they were joined to
+  bareMatches: Map<string, BareNameMatches>;
+}
+
+/**
+ * Repositories a bare "repo" key was joined to, with the first few named
+ */
+interface BareNameMatches {
+  count: number;
+  examples: string[];
+}
+
+/**
+ * Repositories named per ambiguous bare key in the warning
+ */
+const MAX_BARE_NAME_EXAMPLES = 3;
+
+/**
+ * Summaries of every detail file given, ready to join
+ */
+export interface DetailIndex {
+  maven?: DetailSummaries<MavenPackageSummary>;
+  codespaces?: DetailSummaries<CodespacesUsageSummary>;
+  macosRunners?: DetailSummaries<MacOsRunnerSummary>;
+}
+
+/**
+ * Join key of a repository name from a detail file
+ */
+function detailKey(name: string | undefined): string {
+  return (name ?? "").trim().toLowerCase();
+}
+
+/**
+ * Later of two optional dates (YYYY-MM-DD)
+ */
+function laterDate(
+  current: string | undefined,
+  raw: string | undefined
+): string | undefined {
+  const time = Date.parse(raw ?? "");
+  if (isNaN(time)) {
+    return current;
+  }
+  const date = new Date(time).toISOString().slice(0, 10);
+  return current === undefined || date > current ? date : current;
+}
+
+/**
+ * Get the summary for a key, creating it when missing
+ */
+function summaryFor<T>(
+  summaries: Map<string, T>,
+  key: string,
+  create: () => T
+): T {
+  if (!summaries.has(key)) {
+    summaries.set(key, create());
+  }
+  return summaries.get(key)!;
+}
+
+/**
+ * Summarize the Maven packages of each repository; packages of other types
+ * are ignored
+ */
+export function summarizeMavenPackages(
+  file: string,
+  packages: PackageDetail[]
+): DetailSummaries<MavenPackageSummary> {
+  const summaries = new Map<string, MavenPackageSummary>();
+
+  for (const pkg of packages) {
+    if (!pkg["Package Type"]?.toLowerCase().includes("maven")) {
+      continue;
+    }
+    const summary = summaryFor(
+      summaries,
+      detailKey(pkg["Repo Name"]),
+      (): MavenPackageSummary => ({
+        packageCount: 0,
+        totalSizeBytes: 0,
+      })
+    );
+    summary.packageCount++;
+    summary.totalSizeBytes += parseCount(pkg["Total All Size (bytes)"]).value;
+    const lastPublished = laterDate(
+      summary.lastPublished,
+      pkg["Last Published"]
+    );
+    if (lastPublished !== undefined) {
+      summary.lastPublished = lastPublished;
+    }
+  }
+
+  return { file, summaries, matched: new Set(), bareMatches: new Map() };
+}
+
+/**
+ * Summarize the codespaces of each repository
+ */
+export function summarizeCodespacesUsage(
+  file: string,
+  codespaces: CodespaceDetail[]
+): DetailSummaries<CodespacesUsageSummary> {
+  const summaries = new Map<string, CodespacesUsageSummary>();
+  const owners = new Map<string, Set<string>>();
+
+  for (const codespace of codespaces) {
+    const key = detailKey(codespace["Repository Name"]);
+    const summary = summaryFor(
+      summaries,
+      key,
+      (): CodespacesUsageSummary => ({
+        codespaceCount: 0,
+        userCount: 0,
+      })
+    );
+    const repoOwners = summaryFor(owners, key, () => new Set<string>());
+    summary.codespaceCount++;
+    if (codespace.Owner) {
+      repoOwners.add(codespace.Owner);
+    }
+    summary.userCount = repoOwners.size;
+    const lastUsed = laterDate(summary.lastUsed, codespace["Last Used At"]);
+    if (lastUsed !== undefined) {
+      summary.lastUsed = lastUsed;
+    }
+  }
+
+  return { file, summaries, matched: new Set(), bareMatches: new Map() };
+}
+
+/**
+ * Summarize the macOS runner usage of each repository
+ */
+export function summarizeMacOsRunners(
+  file: string,
+  runners: MacOsRunnerDetail[]
+): DetailSummaries<MacOsRunnerSummary> {
+  const summaries = new Map<string, MacOsRunnerSummary>();
+  const workflows = new Map<string, Set<string>>();
+
+  for (const runner of runners) {
+    const key = detailKey(runner["Source repository"]);
+    const summary = summaryFor(summaries, key, () => ({
+      totalMinutes: 0,
+      workflowRuns: 0,
+      workflowCount: 0,
+    }));
+    const repoWorkflows = summaryFor(workflows, key, () => new Set<string>());
+    summary.totalMinutes += parseCount(runner["Total minutes"]).value;
+    summary.workflowRuns += parseCount(runner["Workflow runs"]).value;
+    repoWorkflows.add(runner.Workflow);
+    summary.workflowCount = repoWorkflows.size;
+  }
+
+  return { file, summaries, matched: new Set(), bareMatches: new Map() };
+}
+
+/**
+ * Find the summary of a repository: rows naming "org/repo" match that
+ * repository only, rows naming "repo" match it in any organization. Bare
+ * names are recorded with the repositories they match, so names matching
+ * more than one can be reported.
+ */
+function lookupDetails<T>(
+  details: DetailSummaries<T> | undefined,
+  repo: NormalizedRepository
+): T | undefined {
+  if (!details) {
+    return undefined;
+  }
+  const qualifiedKey = detailKey(`${repo.Org_Name}/${repo.Repo_Name}`);
+  const qualified = details.summaries.get(qualifiedKey);
+  if (qualified) {
+    details.matched.add(qualifiedKey);
+    return qualified;
+  }
+
+  const bareKey = detailKey(repo.Repo_Name);
+  const bare = details.summaries.get(bareKey);
+  if (bare) {
+    details.matched.add(bareKey);
+    const matches = summaryFor(details.bareMatches, bareKey, () => ({
+      count: 0,
+      examples: [] as string[],
+    }));
+    matches.count++;
+    if (matches.examples.length < MAX_BARE_NAME_EXAMPLES) {
+      matches.examples.push(
+        `${repo.Enterprise || "Unknown"}/${repo.Org_Name}/${repo.Repo_Name}`
+      );
+    }
+  }
+  return bare;
+}
+
+/**
+ * Join the detail summaries of a repository. Details also set the matching
+ * has_* flags and raise the inventory counts they cover.
+ */
+export function joinRepositoryDetails(
+  repo: NormalizedRepository,
+  index: DetailIndex
+): NormalizedRepository {
+  const maven = lookupDetails(index.maven, repo);
+  const codespaces = lookupDetails(index.codespaces, repo);
+  const macosRunners = lookupDetails(index.macosRunners, repo);
+  if (!maven && !codespaces && !macosRunners) {
+    return repo;
+  }
+
+  const joined: NormalizedRepository = {
+    ...repo,
+    details: { ...repo.details },
+  };
+  if (maven) {
+    joined.details.maven = maven;
+    joined.has_maven_packages = true;
+    joined.maven_package_count = Math.max(
+      repo.maven_package_count,
+      maven.packageCount
+    );
+  }
+  if (codespaces) {
+    joined.details.codespaces = codespaces;
+    joined.has_codespaces = true;
+    joined.codespace_count = Math.max(
+      repo.codespace_count,
+      codespaces.codespaceCount
+    );
+    joined.codespace_user_count = Math.max(
+      repo.codespace_user_count,
+      codespaces.userCount
+    );
+  }
+  if (macosRunners) {
+    joined.details.macosRunners = macosRunners;
+    joined.has_macos_runners = true;
+  }
+  return joined;
+}
+
+/**
+ * Log a warning for each detail file with rows that matched no repository,
+ * and with bare repository names joined to more than one repository (each of
+ * them gets the details of every repository of that name)
+ */
+export function warnUnmatchedDetails(index: DetailIndex): void {
+  for (const details of [index.maven, index.codespaces, index.macosRunners]) {
+    if (!details) {
+      continue;
+    }
+    const unmatched = [...details.summaries.keys()].filter(
+      (key) => !details.matched.has(key)
+    );
+    if (unmatched.length > 0) {
+      console.warn(
+        `Warning: ${unmatched.length} repository name(s) in ${
+          details.file
+        } matched no repository in the inventory (e.g. ${unmatched
+          .slice(0, 3)
+          .join(", ")})`
+      );
+    }
+
+    const ambiguous = [...details.bareMatches].filter(
+      ([, matches]) => matches.count > 1
+    );
+    if (ambiguous.length > 0) {
+      console.warn(
+        `Warning: ${ambiguous.length} bare repository name(s) in ${
+          details.file
+        } matched more than one repository and were joined to each; name them as org/repo to join one (e.g. ${ambiguous
+          .slice(0, 3)
+          .map(
+            ([name, matches]) =>
+              `${name}: ${matches.count} repositories, ${matches.examples.join(
+                ", "
+              )}`
+          )
+          .join("; ")})`
+      );
+    }
+  }
+}
+
+// =============================================================================
+// REASONS
+// =============================================================================
+
+/**
+ * Format a size in bytes with a binary unit, e.g. "3.2 GB"
+ */
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${size} B` : `${size.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Describe Maven package details, e.g.
+ * "Maven: 14 packages, 3.2 GB, last published 2025-03"
+ */
+export function describeMavenPackages(maven: MavenPackageSummary): string {
+  const parts = [
+    `${maven.packageCount} package(s)`,
+    formatBytes(maven.totalSizeBytes),
+  ];
+  if (maven.lastPublished) {
+    parts.push(`last published ${maven.lastPublished.slice(0, 7)}`);
+  }
+  return `Maven: ${parts.join(", ")}`;
+}
+
+/**
+ * Describe Codespaces usage details, e.g.
+ * "Codespaces: 9 codespaces, 6 users, last used 2025-04"
+ */
+export function describeCodespacesUsage(
+  codespaces: CodespacesUsageSummary
+): string {
+  const parts = [
+    `${codespaces.codespaceCount} codespace(s)`,
+    `${codespaces.userCount} user(s)`,
+  ];
+  if (codespaces.lastUsed) {
+    parts.push(`last used ${codespaces.lastUsed.slice(0, 7)}`);
+  }
+  return `Codespaces: ${parts.join(", ")}`;
+}
+
+/**
+ * Describe macOS runner usage details, e.g.
+ * "macOS: 4,100 minutes, 120 workflow runs"
+ */
+export function describeMacOsRunners(runners: MacOsRunnerSummary): string {
+  return `macOS: ${runners.totalMinutes.toLocaleString(
+    "en-US"
+  )} minutes, ${runners.workflowRuns.toLocaleString("en-US")} workflow run(s)`;
+}
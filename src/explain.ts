@@ -0,0 +1,203 @@
+/**
+ * Scoring trace for a single repository (the --explain CLI mode)
+ */
+
+import { LoadedData } from "./data.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import {
+  AnalysisConfig,
+  CellDiagnostic,
+  NormalizedRepository,
+} from "./types.js";
+import { FEATURE_REGISTRY, describeFeatureValues } from "./features.js";
+import { isFeatureEnabled, scoreFeature } from "./scoring.js";
+import { repositorySources } from "./merge.js";
+import { isUnparsed } from "./normalize.js";
+import {
+  activityReferenceTime,
+  assessActivity,
+  describeActivity,
+} from "./activity.js";
+import {
+  UNASSIGNED_COHORT,
+  describeCondition,
+  evaluateCondition,
+  getCohortRules,
+  matchCohortTags,
+  renderSummary,
+} from "./rules.js";
+import {
+  archivedTrackConfig,
+  calculateScores,
+  calculateWeightBreakdown,
+  getMigrationReasons,
+} from "./analysis.js";
+
+/**
+ * Find a repository by "org/repo" or "enterprise/org/repo" name
+ * (case-insensitive; a blank enterprise is named "Unknown")
+ * @returns The matching repository, or undefined when none matches
+ * @throws When the name matches repositories of more than one enterprise
+ */
+export function findRepository(
+  data: LoadedData,
+  fullName: string
+): NormalizedRepository | undefined {
+  const parts = fullName.toLowerCase().split("/");
+  const [enterpriseName, orgName, repoName] =
+    parts.length === 3 ? parts : [undefined, ...parts];
+  const matches = data.repositories.filter(
+    (repo) =>
+      (enterpriseName === undefined ||
+        (repo.Enterprise || "Unknown").toLowerCase() === enterpriseName) &&
+      repo.Org_Name?.toLowerCase() === orgName &&
+      repo.Repo_Name?.toLowerCase() === repoName
+  );
+  if (matches.length > 1) {
+    throw new Error(
+      `Repository ${fullName} is ambiguous; name it as enterprise/org/repo, one of: ${matches
+        .map(
+          (repo) =>
+            `${repo.Enterprise || "Unknown"}/${repo.Org_Name}/${repo.Repo_Name}`
+        )
+        .join(", ")}`
+    );
+  }
+  return matches[0];
+}
+
+/**
+ * Build the full scoring trace for one repository: every feature with its
+ * normalized values and points, followed by the evaluation of each cohort rule.
+ * Archived repositories reported on the separate track are traced with that
+ * track's configuration, as the analysis classifies them.
+ * @param diagnostics - Parse diagnostics of the loaded data; those for the
+ * repository's row are listed in the trace
+ */
+export function explainRepository(
+  repo: NormalizedRepository,
+  analysisConfig: AnalysisConfig = DEFAULT_CONFIG,
+  diagnostics: CellDiagnostic[] = []
+): string {
+  const lines: string[] = [];
+  const archivedTrack =
+    !analysisConfig.FEATURES.INCLUDE_ARCHIVED_IN_MAIN_ANALYSIS &&
+    repo.isArchived;
+  const config = archivedTrack
+    ? archivedTrackConfig(analysisConfig)
+    : analysisConfig;
+
+  lines.push(`=== SCORING TRACE: ${repo.Org_Name}/${repo.Repo_Name} ===`);
+  lines.push(`Enterprise: ${repo.Enterprise || "Unknown"}`);
+  lines.push(`Source: ${repo.source.file}, row ${repo.source.row}`);
+  if (archivedTrack) {
+    lines.push(
+      "Track: archived (classified separately, with ARCHIVED as a tag)"
+    );
+  }
+  if (repo.duplicates.length > 0) {
+    lines.push(
+      `Duplicates: ${repo.duplicates
+        .map((source) => `${source.file}, row ${source.row}`)
+        .join("; ")}`
+    );
+  }
+
+  const sources = repositorySources(repo);
+  const rowDiagnostics = diagnostics.filter(
+    (d) =>
+      isUnparsed(d) &&
+      sources.some((source) => d.file === source.file && d.row === source.row)
+  );
+  if (rowDiagnostics.length > 0) {
+    lines.push("\n--- Unparsed cells (read as 0 or false) ---");
+    for (const diagnostic of rowDiagnostics) {
+      lines.push(
+        `${diagnostic.column.padEnd(40)} | "${diagnostic.value}" - ${
+          diagnostic.problem
+        }`
+      );
+    }
+  }
+
+  if (repo.legacy) {
+    lines.push("\n--- Legacy ghec-analysis columns ---");
+    for (const [column, value] of Object.entries(repo.legacy)) {
+      lines.push(`${column.padEnd(40)} | ${value}`);
+    }
+  }
+
+  lines.push("\n--- Features ---");
+  for (const feature of FEATURE_REGISTRY) {
+    const score = scoreFeature(feature, repo, config);
+    let outcome: string;
+    if (!isFeatureEnabled(feature, config)) {
+      outcome = "disabled";
+    } else if (!score) {
+      outcome = "not present";
+    } else {
+      outcome = `+${score.points} ${
+        feature.featureGap ? "gap" : "complexity"
+      } (${score.rule}, ${score.units} unit(s))`;
+    }
+    lines.push(
+      `${feature.key.padEnd(24)} | ${outcome.padEnd(
+        36
+      )} | ${describeFeatureValues(feature, repo)}`
+    );
+  }
+  const referenceTime = activityReferenceTime(config);
+  const activity = assessActivity(repo, config, referenceTime);
+  const scores = calculateScores(
+    calculateWeightBreakdown(repo, config),
+    activity
+  );
+  lines.push(`Migration Weight: ${scores.migrationWeight}`);
+  lines.push(`Complexity Score: ${scores.complexityScore}`);
+  lines.push(`Gap Score: ${scores.gapScore}`);
+
+  lines.push("\n--- Activity ---");
+  lines.push(`Last Push: ${repo.activity.lastPush ?? "unknown"}`);
+  lines.push(`Created: ${repo.activity.created ?? "unknown"}`);
+  lines.push(
+    `Workflow Runs: ${repo["repository-actions-workflow-runs"]}, Watchers: ${repo.watchers}`
+  );
+  lines.push(`Activity: ${describeActivity(activity)}`);
+  lines.push(
+    `Measured As Of: ${new Date(referenceTime).toISOString().slice(0, 10)}`
+  );
+  lines.push(`Dormant After: ${config.ACTIVITY.DORMANT_AFTER_DAYS} days`);
+
+  lines.push(
+    "\n--- Cohort Rules (first primary match wins; tag-only rules skipped) ---"
+  );
+  const rules = getCohortRules(config);
+  const matched = rules.find((rule, index) => {
+    if (rule.role === "tag") {
+      return false;
+    }
+    const isMatch = !rule.when || evaluateCondition(rule.when, repo, scores);
+    lines.push(
+      `${String(index + 1).padStart(3)}. ${rule.name.padEnd(20)} | ${(isMatch
+        ? "MATCH"
+        : "no match"
+      ).padEnd(8)} | ${describeCondition(rule.when)}`
+    );
+    return isMatch;
+  });
+
+  const reasons = getMigrationReasons(repo, config);
+  const cohort = matched?.name ?? UNASSIGNED_COHORT;
+  const tags = matchCohortTags(repo, scores, rules, cohort);
+  lines.push(`\nCohort: ${cohort}`);
+  lines.push(
+    `Secondary Cohorts: ${tags.length > 0 ? tags.join(", ") : "none"}`
+  );
+  lines.push(`Summary: ${renderSummary(matched, reasons, scores)}`);
+  lines.push("Reasons:");
+  for (const reason of reasons) {
+    lines.push(`  - ${reason}`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,431 @@
+/**
+ * Migration feature registry: the single definition of every feature that
+ * contributes to migration weight, reasons, HAS_* flags and export columns
+ */
+
+import { NormalizedRepository, RepositoryAnalysis } from "./types.js";
+import {
+  describeCodespacesUsage,
+  describeMacOsRunners,
+  describeMavenPackages,
+} from "./details.js";
+
+/**
+ * Disk usage (in KB) from which a repository counts as large: 1 GB
+ */
+const LARGE_DISK_USAGE_KB = 1024 * 1024;
+
+/**
+ * macOS runner minutes counted as one unit by count-scaled weights
+ */
+const MACOS_MINUTES_PER_UNIT = 1000;
+
+/**
+ * Interface for a migration feature descriptor
+ */
+export interface FeatureDescriptor {
+  // Feature key; also the WEIGHTS key and the suffix of the HAS_* flag
+  key: string;
+  // Input columns the feature is derived from
+  columns: readonly (keyof RepositoryAnalysis)[];
+  // Default weight added when the feature is present
+  weight: number;
+  // Whether the feature is scored unless configured otherwise (defaults to true)
+  enabled?: boolean;
+  // Feature is not supported on the target platform
+  featureGap?: boolean;
+  detect: (repo: NormalizedRepository) => boolean;
+  // Number of units present, used by count-scaled weights (defaults to 1 when detected)
+  measure?: (repo: NormalizedRepository) => number;
+  reason: (repo: NormalizedRepository) => string;
+}
+
+/**
+ * Migration feature definitions, in export column order
+ */
+const FEATURE_DEFINITIONS = [
+  {
+    key: "APP_INSTALLATIONS",
+    columns: ["app_installations"],
+    weight: 10,
+    detect: (repo) => repo.app_installations > 0,
+    measure: (repo) => repo.app_installations,
+    reason: (repo) => `App installations (${repo.app_installations})`,
+  },
+  {
+    key: "GIT_LFS_OBJECTS",
+    columns: ["git-lfs-objects"],
+    weight: 1, // IGNORE - this is covered now and shouldn't be part of the weight
+    detect: (repo) => repo["git-lfs-objects"] > 0,
+    measure: (repo) => repo["git-lfs-objects"],
+    reason: (repo) => `Git LFS objects (${repo["git-lfs-objects"]})`,
+  },
+  {
+    key: "PACKAGES",
+    columns: ["repository-packages"],
+    weight: 9,
+    detect: (repo) => repo["repository-packages"] > 0,
+    measure: (repo) => repo["repository-packages"],
+    reason: (repo) => `Repository packages (${repo["repository-packages"]})`,
+  },
+  {
+    key: "PROJECTS",
+    columns: ["projects_linked_to_repo", "issues_linked_to_projects"],
+    weight: 7,
+    detect: (repo) =>
+      repo.projects_linked_to_repo > 0 || repo.issues_linked_to_projects > 0,
+    measure: (repo) =>
+      repo.projects_linked_to_repo + repo.issues_linked_to_projects,
+    reason: (repo) =>
+      `Projects linked (repo: ${repo.projects_linked_to_repo}, issues: ${repo.issues_linked_to_projects})`,
+  },
+  {
+    key: "CUSTOM_PROPERTIES",
+    columns: ["repository-custom-properties"],
+    weight: 1, // IGNORE - this is covered now and shouldn't be part of the weight
+    detect: (repo) => repo["repository-custom-properties"] > 0,
+    measure: (repo) => repo["repository-custom-properties"],
+    reason: (repo) =>
+      `Custom properties (${repo["repository-custom-properties"]})`,
+  },
+  {
+    key: "RULESETS",
+    columns: ["repository-rulesets"],
+    weight: 1, // IGNORE - this is covered now and shouldn't be part of the weight
+    detect: (repo) => repo["repository-rulesets"] > 0,
+    measure: (repo) => repo["repository-rulesets"],
+    reason: (repo) => `Rulesets (${repo["repository-rulesets"]})`,
+  },
+  {
+    key: "SECRETS",
+    columns: ["repository-actions-secrets", "repository-dependabot-secrets"],
+    weight: 5,
+    detect: (repo) =>
+      repo["repository-actions-secrets"] > 0 ||
+      repo["repository-dependabot-secrets"] > 0,
+    measure: (repo) =>
+      repo["repository-actions-secrets"] +
+      repo["repository-dependabot-secrets"],
+    reason: (repo) =>
+      `Secrets (Actions: ${repo["repository-actions-secrets"]}, Dependabot: ${repo["repository-dependabot-secrets"]})`,
+  },
+  {
+    key: "ENVIRONMENTS",
+    columns: ["repository-environments"],
+    weight: 4,
+    detect: (repo) => repo["repository-environments"] > 0,
+    measure: (repo) => repo["repository-environments"],
+    reason: (repo) => `Environments (${repo["repository-environments"]})`,
+  },
+  {
+    key: "SELF_HOSTED_RUNNERS",
+    columns: ["repository-actions-self-hosted-runners"],
+    weight: 8,
+    detect: (repo) => repo["repository-actions-self-hosted-runners"] > 0,
+    measure: (repo) => repo["repository-actions-self-hosted-runners"],
+    reason: (repo) =>
+      `Self-hosted runners (${repo["repository-actions-self-hosted-runners"]})`,
+  },
+  {
+    key: "WEBHOOKS",
+    columns: ["repository-webhooks"],
+    weight: 3,
+    detect: (repo) => repo["repository-webhooks"] > 0,
+    measure: (repo) => repo["repository-webhooks"],
+    reason: (repo) => `Webhooks (${repo["repository-webhooks"]})`,
+  },
+  {
+    key: "DISCUSSIONS",
+    columns: ["repository-discussions"],
+    weight: 2,
+    detect: (repo) => repo["repository-discussions"] > 0,
+    measure: (repo) => repo["repository-discussions"],
+    reason: (repo) => `Discussions (${repo["repository-discussions"]})`,
+  },
+  {
+    key: "DEPLOY_KEYS",
+    columns: ["repository-deploy-keys"],
+    weight: 3,
+    detect: (repo) => repo["repository-deploy-keys"] > 0,
+    measure: (repo) => repo["repository-deploy-keys"],
+    reason: (repo) => `Deploy keys (${repo["repository-deploy-keys"]})`,
+  },
+  {
+    key: "PAGES_CUSTOM_DOMAIN",
+    columns: ["repository-pages-customdomain"],
+    weight: 2,
+    detect: (repo) => repo["repository-pages-customdomain"] > 0,
+    measure: (repo) => repo["repository-pages-customdomain"],
+    reason: (repo) =>
+      `Pages custom domain (${repo["repository-pages-customdomain"]})`,
+  },
+  {
+    key: "RELEASES_LARGE",
+    columns: ["repository-releases-gt-5gb"],
+    weight: 7,
+    detect: (repo) => repo["repository-releases-gt-5gb"] > 0,
+    measure: (repo) => repo["repository-releases-gt-5gb"],
+    reason: (repo) => `Large releases (${repo["repository-releases-gt-5gb"]})`,
+  },
+  {
+    key: "CODESPACES",
+    columns: ["has_codespaces", "codespace_count", "codespace_user_count"],
+    weight: 6,
+    featureGap: true,
+    detect: (repo) => repo.has_codespaces,
+    measure: (repo) => Math.max(1, repo.codespace_count),
+    reason: (repo) =>
+      repo.details.codespaces
+        ? describeCodespacesUsage(repo.details.codespaces)
+        : `Codespaces (${repo.codespace_count} codespaces, ${repo.codespace_user_count} users)`,
+  },
+  {
+    key: "MAVEN_PACKAGES",
+    columns: ["has_maven_packages", "maven_package_count"],
+    weight: 8,
+    featureGap: true,
+    detect: (repo) => repo.has_maven_packages,
+    measure: (repo) => Math.max(1, repo.maven_package_count),
+    reason: (repo) =>
+      repo.details.maven
+        ? describeMavenPackages(repo.details.maven)
+        : `Maven packages (${repo.maven_package_count})`,
+  },
+  {
+    key: "MACOS_RUNNERS",
+    columns: ["has_macos_runners"],
+    weight: 9,
+    featureGap: true,
+    detect: (repo) => repo.has_macos_runners,
+    // One unit per 1,000 minutes when runner minutes are known
+    measure: (repo) =>
+      repo.details.macosRunners
+        ? Math.max(
+            1,
+            Math.ceil(
+              repo.details.macosRunners.totalMinutes / MACOS_MINUTES_PER_UNIT
+            )
+          )
+        : 1,
+    reason: (repo) =>
+      repo.details.macosRunners
+        ? describeMacOsRunners(repo.details.macosRunners)
+        : "macOS runners",
+  },
+  {
+    key: "IS_ARCHIVED",
+    columns: ["isArchived"],
+    weight: 5,
+    enabled: false, // Archived repositories are tracked separately or tagged
+    detect: (repo) => repo.isArchived,
+    reason: () => "Archived repository",
+  },
+  {
+    key: "EXTERNAL_COLLABORATORS",
+    columns: ["has_external_collaborators"],
+    weight: 3,
+    detect: (repo) => repo.has_external_collaborators,
+    reason: () => "External collaborators",
+  },
+  {
+    key: "UNMIGRATABLE",
+    columns: ["has_unmigratable"],
+    weight: 15, // Highest weight for unmigratable repos
+    detect: (repo) => repo.has_unmigratable,
+    reason: () => "Unmigratable features",
+  },
+  // Features below are parsed from the inventory but not scored by default;
+  // switch them on with ENABLED_FEATURES
+  {
+    key: "GIT_SUBMODULES",
+    columns: ["git-submodules"],
+    weight: 4,
+    enabled: false,
+    detect: (repo) => repo["git-submodules"] > 0,
+    measure: (repo) => repo["git-submodules"],
+    reason: (repo) => `Git submodules (${repo["git-submodules"]})`,
+  },
+  {
+    key: "ACTIONS_VARIABLES",
+    columns: ["repository-actions-variables"],
+    weight: 4,
+    enabled: false,
+    detect: (repo) => repo["repository-actions-variables"] > 0,
+    measure: (repo) => repo["repository-actions-variables"],
+    reason: (repo) =>
+      `Actions variables (${repo["repository-actions-variables"]})`,
+  },
+  {
+    key: "ACTIONS_WORKFLOW_RUNS",
+    columns: ["repository-actions-workflow-runs"],
+    weight: 2,
+    enabled: false,
+    detect: (repo) => repo["repository-actions-workflow-runs"] > 0,
+    measure: (repo) => repo["repository-actions-workflow-runs"],
+    reason: (repo) =>
+      `Actions workflow runs (${repo["repository-actions-workflow-runs"]})`,
+  },
+  {
+    key: "DEPLOYMENTS",
+    columns: ["repository-deployments"],
+    weight: 2,
+    enabled: false,
+    detect: (repo) => repo["repository-deployments"] > 0,
+    measure: (repo) => repo["repository-deployments"],
+    reason: (repo) => `Deployments (${repo["repository-deployments"]})`,
+  },
+  {
+    key: "DEPENDABOT_ALERTS",
+    columns: ["repository-dependabot-alerts"],
+    weight: 1,
+    enabled: false,
+    detect: (repo) => repo["repository-dependabot-alerts"] > 0,
+    measure: (repo) => repo["repository-dependabot-alerts"],
+    reason: (repo) =>
+      `Dependabot alerts (${repo["repository-dependabot-alerts"]})`,
+  },
+  {
+    key: "CODE_SCANNING",
+    columns: [
+      "repository-code-scanning-analyses",
+      "repository-code-scanning-alerts",
+      "repository-code-scanning-default-setup",
+    ],
+    weight: 2,
+    enabled: false,
+    detect: (repo) =>
+      repo["repository-code-scanning-analyses"] > 0 ||
+      repo["repository-code-scanning-alerts"] > 0 ||
+      repo["repository-code-scanning-default-setup"] > 0,
+    // Alerts, counting a repository with scanning set up but no alerts as one
+    measure: (repo) => Math.max(1, repo["repository-code-scanning-alerts"]),
+    reason: (repo) =>
+      `Code scanning (analyses: ${repo["repository-code-scanning-analyses"]}, alerts: ${repo["repository-code-scanning-alerts"]}, default setup: ${repo["repository-code-scanning-default-setup"]})`,
+  },
+  {
+    key: "SECRET_SCANNING_ALERTS",
+    columns: ["repository-secret-scanning-alerts"],
+    weight: 2,
+    enabled: false,
+    detect: (repo) => repo["repository-secret-scanning-alerts"] > 0,
+    measure: (repo) => repo["repository-secret-scanning-alerts"],
+    reason: (repo) =>
+      `Secret scanning alerts (${repo["repository-secret-scanning-alerts"]})`,
+  },
+  {
+    key: "LARGE_DISK_USAGE",
+    columns: ["repository-disk-usage"],
+    weight: 3,
+    enabled: false,
+    // Disk usage is reported in KB; repositories of 1 GB or more are flagged
+    detect: (repo) => repo["repository-disk-usage"] >= LARGE_DISK_USAGE_KB,
+    measure: (repo) =>
+      Math.ceil(repo["repository-disk-usage"] / LARGE_DISK_USAGE_KB),
+    reason: (repo) =>
+      `Disk usage (${(
+        repo["repository-disk-usage"] / LARGE_DISK_USAGE_KB
+      ).toFixed(1)} GB)`,
+  },
+  {
+    key: "FORKS",
+    columns: ["repository-forks"],
+    weight: 1,
+    enabled: false,
+    detect: (repo) => repo["repository-forks"] > 0,
+    measure: (repo) => repo["repository-forks"],
+    reason: (repo) => `Forks (${repo["repository-forks"]})`,
+  },
+  {
+    key: "PINNED_ISSUES",
+    columns: ["repository-pinned-issues"],
+    weight: 1,
+    enabled: false,
+    detect: (repo) => repo["repository-pinned-issues"] > 0,
+    measure: (repo) => repo["repository-pinned-issues"],
+    reason: (repo) => `Pinned issues (${repo["repository-pinned-issues"]})`,
+  },
+  {
+    key: "WATCHERS",
+    columns: ["watchers"],
+    weight: 1,
+    enabled: false,
+    detect: (repo) => repo.watchers > 0,
+    measure: (repo) => repo.watchers,
+    reason: (repo) => `Watchers (${repo.watchers})`,
+  },
+  {
+    key: "ISSUE_LINKED_PROJECTS",
+    columns: ["unique_projects_linked_by_issues"],
+    weight: 2,
+    enabled: false,
+    detect: (repo) => repo.unique_projects_linked_by_issues > 0,
+    measure: (repo) => repo.unique_projects_linked_by_issues,
+    reason: (repo) =>
+      `Projects linked by issues (${repo.unique_projects_linked_by_issues})`,
+  },
+] as const satisfies readonly FeatureDescriptor[];
+
+/**
+ * Key of a registered migration feature
+ */
+export type FeatureKey = (typeof FEATURE_DEFINITIONS)[number]["key"];
+
+/**
+ * Interface for a feature descriptor in the registry
+ */
+export interface RegisteredFeature extends FeatureDescriptor {
+  key: FeatureKey;
+}
+
+/**
+ * Registry of migration features, in export column order
+ */
+export const FEATURE_REGISTRY: readonly RegisteredFeature[] =
+  FEATURE_DEFINITIONS;
+
+/**
+ * Name of the HAS_* flag generated for a feature
+ */
+export type FeatureFlagName = `HAS_${FeatureKey}`;
+
+/**
+ * Boolean HAS_* flags for every registered feature
+ */
+export type FeatureFlags = Record<FeatureFlagName, boolean>;
+
+/**
+ * Get the HAS_* flag name for a feature
+ */
+export function featureFlagName(key: FeatureKey): FeatureFlagName {
+  return `HAS_${key}`;
+}
+
+/**
+ * Get the default weight of every registered feature
+ */
+export function defaultFeatureWeights(): Record<FeatureKey, number> {
+  return Object.fromEntries(
+    FEATURE_REGISTRY.map((feature) => [feature.key, feature.weight])
+  ) as Record<FeatureKey, number>;
+}
+
+/**
+ * Get whether each registered feature is scored by default
+ */
+export function defaultEnabledFeatures(): Record<FeatureKey, boolean> {
+  return Object.fromEntries(
+    FEATURE_REGISTRY.map((feature) => [feature.key, feature.enabled ?? true])
+  ) as Record<FeatureKey, boolean>;
+}
+
+/**
+ * Describe the normalized source column values of a feature for a repository
+ */
+export function describeFeatureValues(
+  feature: FeatureDescriptor,
+  repo: NormalizedRepository
+): string {
+  return feature.columns
+    .map((column) => `${column}=${repo[column] ?? ""}`)
+    .join(", ");
+}
@@ -0,0 +1,137 @@
+/**
+ * Input header validation: compares the columns of an input file with the
+ * expected repository analysis columns before any analysis runs
+ */
+
+import { FEATURE_REGISTRY } from "./features.js";
+import { HeaderNearMiss, HeaderValidationReport } from "./types.js";
+
+/**
+ * Largest edit distance at which an unexpected column counts as a near miss
+ */
+const MAX_NEAR_MISS_DISTANCE = 2;
+
+/**
+ * Normalize a column name for near-miss comparison: case, spaces, dashes
+ * and underscores are ignored
+ */
+function normalizeColumn(column: string): string {
+  return column.toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
+
+/**
+ * Find the missing column an unexpected column most likely means
+ */
+function findNearMiss(
+  found: string,
+  missing: string[]
+): HeaderNearMiss | undefined {
+  const normalized = normalizeColumn(found);
+  let best: { expected: string; distance: number } | undefined;
+
+  for (const expected of missing) {
+    const distance = editDistance(normalized, normalizeColumn(expected));
+    if (
+      distance <= MAX_NEAR_MISS_DISTANCE &&
+      (!best || distance < best.distance)
+    ) {
+      best = { expected, distance };
+    }
+  }
+
+  return best && { found, expected: best.expected };
+}
+
+/**
+ * Compare input headers with the expected columns
+ * @param headers - Column names read from the input file
+ * @param expected - Columns the analysis expects
+ * @param optional - Columns the analysis reads when present
+ */
+export function validateHeaders(
+  headers: string[],
+  expected: readonly string[],
+  optional: readonly string[] = []
+): HeaderValidationReport {
+  const present = new Set(headers);
+  const known = new Set([...expected, ...optional]);
+
+  const missing = expected.filter((column) => !present.has(column));
+  const unexpected = headers.filter((column) => !known.has(column));
+  // Misspelled optional columns are reported like misspelled expected ones
+  const candidates = [
+    ...missing,
+    ...optional.filter((column) => !present.has(column)),
+  ];
+  const nearMisses = unexpected
+    .map((column) => findNearMiss(column, candidates))
+    .filter((nearMiss): nearMiss is HeaderNearMiss => nearMiss !== undefined);
+
+  return { missing, unexpected, nearMisses };
+}
+
+/**
+ * Check whether a header report found any mismatch
+ */
+export function hasHeaderIssues(report: HeaderValidationReport): boolean {
+  return report.missing.length > 0 || report.unexpected.length > 0;
+}
+
+/**
+ * Describe every header mismatch, one line per column, naming the features
+ * that lose their input when a column is missing
+ */
+export function formatHeaderReport(report: HeaderValidationReport): string[] {
+  const lines: string[] = [];
+
+  for (const column of report.missing) {
+    const nearMiss = report.nearMisses.find((n) => n.expected === column);
+    const features = FEATURE_REGISTRY.filter((feature) =>
+      (feature.columns as readonly string[]).includes(column)
+    ).map((feature) => feature.key);
+
+    let line = `missing column "${column}"`;
+    if (nearMiss) {
+      line += ` (found "${nearMiss.found}" - possible misspelling)`;
+    }
+    if (features.length > 0) {
+      line += `; affects ${features.join(", ")}`;
+    }
+    lines.push(line);
+  }
+
+  for (const column of report.unexpected) {
+    const nearMiss = report.nearMisses.find((n) => n.found === column);
+    if (!nearMiss) {
+      lines.push(`unexpected column "${column}" (ignored)`);
+    } else if (!report.missing.includes(nearMiss.expected)) {
+      lines.push(
+        `unexpected column "${column}" (ignored; possible misspelling of optional column "${nearMiss.expected}")`
+      );
+    }
+  }
+
+  return lines;
+}
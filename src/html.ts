@@ -0,0 +1,299 @@
+/**
+ * HTML report: a single offline file with the cohort and enterprise
+ * summaries, charts per cohort and a sortable, filterable repository table,
+ * built from the same sections as the JSON report
+ */
+
+import { CohortDetail, CohortSummary } from "./types.js";
+import { ReportSections } from "./report.js";
+
+/**
+ * Width in pixels of the longest bar of a chart
+ */
+const CHART_BAR_WIDTH = 420;
+
+/**
+ * Height in pixels of one bar of a chart, including its spacing
+ */
+const CHART_ROW_HEIGHT = 24;
+
+/**
+ * Escape text for HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Format a number with at most two decimals
+ */
+function formatNumber(value: number): string {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+/**
+ * Table cell holding a number, sorted by its value
+ */
+function numberCell(value: number): string {
+  return `<td class="num" data-value="${value}">${formatNumber(value)}</td>`;
+}
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+h1, h2 { font-weight: 600; }
+table { border-collapse: collapse; margin: 1rem 0; font-size: 0.9rem; }
+th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+th.sortable { cursor: pointer; user-select: none; }
+th.sortable::after { content: " \\2195"; color: #8c959f; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+.meta { color: #57606a; }
+.charts { display: flex; flex-wrap: wrap; gap: 2rem; }
+.chart text { font-size: 12px; fill: #1f2328; }
+.chart rect { fill: #0969da; }
+.filters { display: flex; gap: 1rem; align-items: center; }
+details ul { margin: 0.3rem 0; padding-left: 1.2rem; }
+`;
+
+/**
+ * Sorts the repository table on a header click and filters it by text and
+ * cohort
+ */
+const SCRIPT = `
+(function () {
+  var table = document.getElementById("repositories");
+  var body = table.tBodies[0];
+  var search = document.getElementById("search");
+  var cohort = document.getElementById("cohort");
+  var count = document.getElementById("count");
+  var rows = Array.prototype.slice.call(body.rows);
+
+  function cellValue(row, index, numeric) {
+    var cell = row.cells[index];
+    return numeric ? Number(cell.getAttribute("data-value")) : cell.textContent.toLowerCase();
+  }
+
+  Array.prototype.forEach.call(table.tHead.rows[0].cells, function (header, index) {
+    var ascending = true;
+    header.className = "sortable";
+    header.addEventListener("click", function () {
+      var numeric = header.getAttribute("data-type") === "number";
+      rows.sort(function (a, b) {
+        var x = cellValue(a, index, numeric);
+        var y = cellValue(b, index, numeric);
+        return (x < y ? -1 : x > y ? 1 : 0) * (ascending ? 1 : -1);
+      });
+      ascending = !ascending;
+      rows.forEach(function (row) { body.appendChild(row); });
+    });
+  });
+
+  function filter() {
+    var text = search.value.toLowerCase();
+    var shown = 0;
+    rows.forEach(function (row) {
+      var visible =
+        row.textContent.toLowerCase().indexOf(text) !== -1 &&
+        (cohort.value === "" || row.getAttribute("data-cohort") === cohort.value);
+      row.style.display = visible ? "" : "none";
+      if (visible) shown++;
+    });
+    count.textContent = shown + " of " + rows.length + " repositories";
+  }
+  search.addEventListener("input", filter);
+  cohort.addEventListener("change", filter);
+  filter();
+})();
+`;
+
+/**
+ * Horizontal bar chart of one value per cohort, as inline SVG
+ */
+function formatBarChart(
+  title: string,
+  summaries: CohortSummary[],
+  value: (summary: CohortSummary) => number
+): string {
+  const labelWidth = 170;
+  const max = Math.max(1, ...summaries.map(value));
+  const height = summaries.length * CHART_ROW_HEIGHT;
+
+  const bars = summaries.map((summary, index) => {
+    const y = index * CHART_ROW_HEIGHT;
+    const width = Math.round((value(summary) / max) * CHART_BAR_WIDTH);
+    return (
+      `<text x="0" y="${y + 16}">${escapeHtml(summary.cohortName)}</text>` +
+      `<rect x="${labelWidth}" y="${y + 4}" width="${width}" height="${
+        CHART_ROW_HEIGHT - 8
+      }"></rect>` +
+      `<text x="${labelWidth + width + 6}" y="${y + 16}">${formatNumber(
+        value(summary)
+      )}</text>`
+    );
+  });
+
+  return `<figure class="chart"><figcaption>${escapeHtml(
+    title
+  )}</figcaption><svg width="${
+    labelWidth + CHART_BAR_WIDTH + 60
+  }" height="${height}" role="img" aria-label="${escapeHtml(
+    title
+  )}">${bars.join("")}</svg></figure>`;
+}
+
+/**
+ * Table of cohort summaries
+ */
+function formatCohortTable(summaries: CohortSummary[]): string {
+  const rows = summaries.map(
+    (summary) =>
+      `<tr><td>${escapeHtml(summary.cohortName)}</td>${numberCell(
+        summary.repositoryCount
+      )}${numberCell(summary.averageWeight)}${numberCell(
+        summary.averageComplexityScore
+      )}${numberCell(summary.averageGapScore)}</tr>`
+  );
+  return `<table><thead><tr><th>Cohort</th><th>Repositories</th><th>Avg Weight</th><th>Avg Complexity</th><th>Avg Gap</th></tr></thead><tbody>${rows.join(
+    ""
+  )}</tbody></table>`;
+}
+
+/**
+ * Table of enterprises with their repository count per cohort
+ */
+function formatEnterpriseTable(sections: ReportSections): string {
+  const cohorts = sections.cohortSummaries.map((summary) => summary.cohortName);
+  const rows = sections.enterpriseSummaries.map((enterprise) => {
+    const counts = cohorts.map(
+      (cohort) =>
+        enterprise.cohortSummaries.find(
+          (summary) => summary.cohortName === cohort
+        )?.repositoryCount ?? 0
+    );
+    return `<tr><td>${escapeHtml(enterprise.enterpriseName)}</td>${numberCell(
+      enterprise.totalRepositories
+    )}${numberCell(enterprise.averageWeight)}${numberCell(
+      enterprise.averageComplexityScore
+    )}${numberCell(enterprise.averageGapScore)}${counts
+      .map(numberCell)
+      .join("")}</tr>`;
+  });
+  return `<table><thead><tr><th>Enterprise</th><th>Repositories</th><th>Avg Weight</th><th>Avg Complexity</th><th>Avg Gap</th>${cohorts
+    .map((cohort) => `<th>${escapeHtml(cohort)}</th>`)
+    .join("")}</tr></thead><tbody>${rows.join("")}</tbody></table>`;
+}
+
+/**
+ * Format everything before the repository rows
+ */
+function formatHtmlHead(sections: ReportSections): string {
+  const { metadata } = sections;
+  const cohortOptions = sections.cohortSummaries
+    .map(
+      (summary) =>
+        `<option value="${escapeHtml(summary.cohortName)}">${escapeHtml(
+          summary.cohortName
+        )}</option>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Migration cohort report</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>Migration cohort report</h1>
+<p class="meta">Generated ${escapeHtml(metadata.generatedAt)} by ${escapeHtml(
+    metadata.tool.name
+  )} ${escapeHtml(metadata.tool.version)} from ${escapeHtml(
+    metadata.inputs.join(", ") || "the default input"
+  )}. ${metadata.totals.repositories} repositories classified${
+    metadata.separateArchivedTrack
+      ? `, ${metadata.totals.archivedRepositories} archived repositories reported separately`
+      : ""
+  }; activity measured at ${escapeHtml(metadata.activityAsOf)}; ${
+    metadata.totals.unparsedCells
+  } unparsed cells and ${
+    metadata.totals.auditFindings
+  } input audit findings.</p>
+<h2>Cohorts</h2>
+${formatCohortTable(sections.cohortSummaries)}
+<div class="charts">
+${formatBarChart(
+  "Repositories per cohort",
+  sections.cohortSummaries,
+  (summary) => summary.repositoryCount
+)}
+${formatBarChart(
+  "Average weight per cohort",
+  sections.cohortSummaries,
+  (summary) => summary.averageWeight
+)}
+</div>
+<h2>Cohort tags</h2>
+${formatCohortTable(sections.tagSummaries)}
+<h2>Enterprises</h2>
+${formatEnterpriseTable(sections)}
+<h2>Repositories</h2>
+<div class="filters">
+<input id="search" type="search" placeholder="Filter repositories" aria-label="Filter repositories">
+<select id="cohort" aria-label="Cohort"><option value="">All cohorts</option>${cohortOptions}</select>
+<span id="count"></span>
+</div>
+<table id="repositories">
+<thead><tr><th>Repository</th><th>Enterprise</th><th>Cohort</th><th>Tags</th><th data-type="number">Weight</th><th data-type="number">Complexity</th><th data-type="number">Gap</th><th data-type="number">Activity</th><th>Reasons</th></tr></thead>
+<tbody>
+`;
+}
+
+/**
+ * Format one repository as a row of the repository table
+ */
+export function formatHtmlRepositoryRow(detail: CohortDetail): string {
+  const reasons = detail.migrationReasons
+    .split("; ")
+    .filter((reason) => reason !== "");
+  return `<tr data-cohort="${escapeHtml(detail.cohort)}"><td>${escapeHtml(
+    `${detail.organizationName}/${detail.repositoryName}`
+  )}</td><td>${escapeHtml(
+    detail.enterpriseName || "Unknown"
+  )}</td><td>${escapeHtml(detail.cohort)}</td><td>${escapeHtml(
+    detail.secondaryCohorts.join(", ")
+  )}</td>${numberCell(detail.migrationWeight)}${numberCell(
+    detail.complexityScore
+  )}${numberCell(detail.gapScore)}${numberCell(
+    detail.activity.activityScore
+  )}<td>${escapeHtml(detail.summary)}${
+    reasons.length > 0
+      ? `<details><summary>${reasons.length} reason(s)</summary><ul>${reasons
+          .map((reason) => `<li>${escapeHtml(reason)}</li>`)
+          .join("")}</ul></details>`
+      : ""
+  }</td></tr>\n`;
+}
+
+/**
+ * Format the HTML report: the summaries, then the repository rows as they
+ * are replayed
+ * @param rows - Repository rows (see formatHtmlRepositoryRow)
+ */
+export async function* formatHtmlReport(
+  sections: ReportSections,
+  rows: AsyncIterable<string>
+): AsyncGenerator<string> {
+  yield formatHtmlHead(sections);
+  yield* rows;
+  yield `</tbody>
+</table>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -1,45 +1,104 @@
 /**
  * Main entry point for the cohort-identifier application
- * Refactored to work with a single repository_analysis_all.csv file
+ * Works with one or more repository_analysis_all.csv files (or JSON/NDJSON
+ * inventories), merged into one inventory
  */
 
-import { loadData } from "./data.js";
+import { parseArgs } from "util";
+import { LoadOptions, loadData, streamRepositoryInputs } from "./data.js";
+import { NormalizedRow } from "./normalize.js";
+import { NormalizedRepository } from "./types.js";
+import { loadConfig } from "./config.js";
 import { runCohortAnalysis } from "./analysis.js";
+import { createAudit } from "./audit.js";
+import { explainRepository, findRepository } from "./explain.js";
+import { DUPLICATE_POLICIES, isDuplicatePolicy } from "./merge.js";
+import { INPUT_FORMATS, isInputFormat } from "./readers.js";
+import { OutputOptions, REPORT_KINDS, isReportKind } from "./output.js";
+
+/**
+ * Print the first repository of the input for verification
+ */
+function printSampleRepository(sampleRepo: NormalizedRepository): void {
+  console.log("Sample repository data:");
+  console.log(`- Enterprise: ${sampleRepo.Enterprise}`);
+  console.log(`- Organization: ${sampleRepo.Org_Name}`);
+  console.log(`- Repository: ${sampleRepo.Repo_Name}`);
+  console.log(`- Has Maven Packages: ${sampleRepo.has_maven_packages}`);
+  console.log(`- Has Codespaces: ${sampleRepo.has_codespaces}`);
+  console.log(`- Has macOS Runners: ${sampleRepo.has_macos_runners}`);
+  console.log(`- Is Archived: ${sampleRepo.isArchived}`);
+  console.log("");
+}
+
+/**
+ * Pass streamed rows through, printing the first repository as a sample
+ */
+async function* withSample(
+  rows: AsyncIterable<NormalizedRow>
+): AsyncGenerator<NormalizedRow> {
+  let first = true;
+  for await (const row of rows) {
+    if (first) {
+      printSampleRepository(row.repository);
+      first = false;
+    }
+    yield row;
+  }
+}
 
 /**
  * Main entry point for the cohort-identifier application
+ * @param inputs - Optional CSV files, directories or glob patterns, merged
+ * into one inventory
+ * @param configFilePath - Optional path to a JSON or YAML configuration profile
+ * @param explainRepoName - Optional "org/repo" or "enterprise/org/repo" to
+ * print a scoring trace for instead of running the full analysis
+ * @param loadOptions - Optional input loading options (header validation,
+ * format, column mappings, duplicate policy, detail files)
+ * @param outputOptions - Optional output directory, file name template,
+ * reports to write and run folder
  */
-export function main(csvFilePath?: string): void {
+export async function main(
+  inputs: string | string[] = [],
+  configFilePath?: string,
+  explainRepoName?: string,
+  loadOptions: LoadOptions = {},
+  outputOptions: OutputOptions = {}
+): Promise<void> {
   console.log("Welcome to cohort-identifier!");
   console.log(
     "This tool analyzes GitHub repositories and assigns them to migration cohorts.\n"
   );
 
-  // Load and display data summary
   try {
-    const data = loadData(csvFilePath);
-    console.log("Data loaded successfully:");
-    console.log(`- Repository Analysis: ${data.repositories.length} records`);
-    console.log("");
-
-    // Display sample of data for verification
-    if (data.repositories.length > 0) {
-      const sampleRepo = data.repositories[0];
-      if (sampleRepo) {
-        console.log("Sample repository data:");
-        console.log(`- Enterprise: ${sampleRepo.Enterprise}`);
-        console.log(`- Organization: ${sampleRepo.Org_Name}`);
-        console.log(`- Repository: ${sampleRepo.Repo_Name}`);
-        console.log(`- Has Maven Packages: ${sampleRepo.has_maven_packages}`);
-        console.log(`- Has Codespaces: ${sampleRepo.has_codespaces}`);
-        console.log(`- Has macOS Runners: ${sampleRepo.has_macos_runners}`);
-        console.log(`- Is Archived: ${sampleRepo.isArchived}`);
-        console.log("");
+    const config = loadConfig(configFilePath);
+
+    // Print the scoring trace for a single repository when requested
+    if (explainRepoName) {
+      const data = loadData(inputs, loadOptions);
+      const repo = findRepository(data, explainRepoName);
+      if (!repo) {
+        throw new Error(`Repository not found: ${explainRepoName}`);
       }
+      console.log(explainRepository(repo, config, data.diagnostics));
+      return;
     }
 
-    // Run the cohort analysis
-    runCohortAnalysis(data);
+    // Stream the merged input through the cohort analysis
+    const inputList = typeof inputs === "string" ? [inputs] : inputs;
+    const audit = createAudit();
+    const rows = streamRepositoryInputs(inputList, { ...loadOptions, audit });
+    await runCohortAnalysis(
+      withSample(rows),
+      config,
+      {
+        inputs: inputList,
+        ...(configFilePath && { configFile: configFilePath }),
+      },
+      outputOptions,
+      audit
+    );
   } catch (error) {
     console.error("Failed to run analysis:", error);
     process.exit(1);
@@ -48,7 +107,88 @@ export function main(csvFilePath?: string): void {
 
 // Only run main if this file is executed directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  // Check if a custom CSV file path was provided as a command line argument
-  const customFilePath = process.argv[2];
-  main(customFilePath);
+  // Usage: index.js [inputFile|directory|glob ...]
+  //                 [--format <csv|json|ndjson>]
+  //                 [--columns <preset|mapping.json|mapping.yaml> ...]
+  //                 [--config <profile.json|profile.yaml>]
+  //                 [--explain <[enterprise/]org/repo>] [--strict-headers]
+  //                 [--duplicates <last-wins|max|error>]
+  //                 [--maven-packages <csv>] [--codespaces-usage <csv>]
+  //                 [--macos-runners <csv>]
+  //                 [--out <directory>] [--file-name <template>]
+  //                 [--reports <report,...>] [--run-folder]
+  const { values, positionals } = parseArgs({
+    options: {
+      config: { type: "string", short: "c" },
+      explain: { type: "string" },
+      "strict-headers": { type: "boolean" },
+      format: { type: "string" },
+      columns: { type: "string", multiple: true },
+      duplicates: { type: "string", default: "last-wins" },
+      "maven-packages": { type: "string" },
+      "codespaces-usage": { type: "string" },
+      "macos-runners": { type: "string" },
+      out: { type: "string", short: "o" },
+      "file-name": { type: "string" },
+      reports: { type: "string", multiple: true },
+      "run-folder": { type: "boolean" },
+    },
+    allowPositionals: true,
+  });
+  if (values.format !== undefined && !isInputFormat(values.format)) {
+    console.error(
+      `Unknown input format: ${
+        values.format
+      } (expected one of: ${INPUT_FORMATS.join(", ")})`
+    );
+    process.exit(1);
+  }
+  if (!isDuplicatePolicy(values.duplicates)) {
+    console.error(
+      `Unknown duplicate policy: ${
+        values.duplicates
+      } (expected one of: ${DUPLICATE_POLICIES.join(", ")})`
+    );
+    process.exit(1);
+  }
+  const reports = values.reports?.flatMap((list) =>
+    list.split(",").map((report) => report.trim())
+  );
+  const unknownReports = reports?.filter((report) => !isReportKind(report));
+  if (unknownReports && unknownReports.length > 0) {
+    console.error(
+      `Unknown report: ${unknownReports.join(
+        ", "
+      )} (expected one of: ${REPORT_KINDS.join(", ")})`
+    );
+    process.exit(1);
+  }
+  await main(
+    positionals,
+    values.config,
+    values.explain,
+    {
+      headerMode: values["strict-headers"] ? "strict" : "lenient",
+      ...(values.format && { format: values.format }),
+      ...(values.columns && { columnMappings: values.columns }),
+      duplicatePolicy: values.duplicates,
+      detailFiles: {
+        ...(values["maven-packages"] && {
+          mavenPackages: values["maven-packages"],
+        }),
+        ...(values["codespaces-usage"] && {
+          codespacesUsage: values["codespaces-usage"],
+        }),
+        ...(values["macos-runners"] && {
+          macosRunners: values["macos-runners"],
+        }),
+      },
+    },
+    {
+      ...(values.out && { directory: values.out }),
+      ...(values["file-name"] && { fileNameTemplate: values["file-name"] }),
+      ...(reports && { reports: reports.filter(isReportKind) }),
+      ...(values["run-folder"] && { runFolder: true }),
+    }
+  );
 }
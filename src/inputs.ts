@@ -0,0 +1,160 @@
+/**
+ * Input path resolution: expands the files, directories and glob patterns
+ * given on the command line into the list of input files to read
+ */
+
+import { readdirSync, statSync } from "fs";
+import { join } from "path";
+import { INPUT_FILE_EXTENSIONS } from "./readers.js";
+
+/**
+ * Whether a path contains glob wildcards
+ */
+function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+/**
+ * Convert a glob pattern segment to a regular expression. `*` and `?` match
+ * within the segment.
+ */
+function globToRegExp(segment: string): RegExp {
+  let source = "";
+  for (const char of segment) {
+    if (char === "*") {
+      source += ".*";
+    } else if (char === "?") {
+      source += ".";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * List every file under a directory, recursively, sorted by path
+ */
+function listFiles(directory: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(directory, { withFileTypes: true })) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFiles(path));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Directories a `**` segment does not descend into
+ */
+function isSkippedDirectory(name: string): boolean {
+  return name === "node_modules" || name.startsWith(".");
+}
+
+/**
+ * Collect the files under a directory that match the remaining segments of a
+ * glob pattern. Each segment reads one directory level; only `**` recurses.
+ */
+function matchGlobSegments(
+  directory: string,
+  segments: string[],
+  files: Set<string>
+): void {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    return;
+  }
+
+  let entries;
+  try {
+    entries = readdirSync(directory, { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  if (segment === "**") {
+    // "**" matches no directory at all, or any number of them; at the end of
+    // a pattern it matches every file below
+    matchGlobSegments(directory, rest.length > 0 ? rest : ["*"], files);
+    for (const entry of entries) {
+      if (entry.isDirectory() && !isSkippedDirectory(entry.name)) {
+        matchGlobSegments(join(directory, entry.name), segments, files);
+      }
+    }
+    return;
+  }
+
+  const matcher = globToRegExp(segment);
+  for (const entry of entries) {
+    if (!matcher.test(entry.name)) {
+      continue;
+    }
+    const path = join(directory, entry.name);
+    if (rest.length === 0) {
+      if (entry.isFile()) {
+        files.add(path);
+      }
+    } else if (entry.isDirectory()) {
+      matchGlobSegments(path, rest, files);
+    }
+  }
+}
+
+/**
+ * Expand a glob pattern to the files it matches, sorted by path
+ */
+function expandGlob(pattern: string): string[] {
+  // Walk from the longest leading part of the pattern without wildcards
+  const segments = pattern.split("/");
+  const firstGlob = segments.findIndex(isGlob);
+  const base = segments.slice(0, firstGlob).join("/") || ".";
+
+  const files = new Set<string>();
+  matchGlobSegments(base, segments.slice(firstGlob), files);
+  return [...files].sort();
+}
+
+/**
+ * Resolve input arguments to the list of files to read, in argument order.
+ * Directories contribute the CSV, JSON and NDJSON files they contain
+ * (recursively) and glob patterns the files they match, each sorted by path.
+ * A file named more than once is read once.
+ * @param inputs - Files, directories or glob patterns
+ */
+export function resolveInputPaths(inputs: string[]): string[] {
+  const paths: string[] = [];
+
+  for (const input of inputs) {
+    let matches: string[];
+    if (isGlob(input)) {
+      matches = expandGlob(input);
+      if (matches.length === 0) {
+        throw new Error(`No input files match: ${input}`);
+      }
+    } else if (statSync(input, { throwIfNoEntry: false })?.isDirectory()) {
+      matches = listFiles(input).filter((file) =>
+        INPUT_FILE_EXTENSIONS.some((extension) =>
+          file.toLowerCase().endsWith(extension)
+        )
+      );
+      if (matches.length === 0) {
+        throw new Error(`No input files found in: ${input}`);
+      }
+    } else {
+      // Plain files are passed through; a missing file fails when it is read
+      matches = [input];
+    }
+
+    for (const match of matches) {
+      if (!paths.includes(match)) {
+        paths.push(match);
+      }
+    }
+  }
+
+  return paths;
+}
@@ -0,0 +1,339 @@
+/**
+ * Markdown report for issues and wikis: the overall cohort summary, an
+ * enterprise by cohort pivot, the most complex repositories per enterprise and
+ * the repositories of each cohort with their reasons. Long lists are
+ * truncated and collapsed as configured in MARKDOWN.
+ */
+
+import { AnalysisConfig, CohortDetail, CohortSummary } from "./types.js";
+import { ReportSections } from "./report.js";
+
+/**
+ * Repository kept for the most complex list of its enterprise
+ */
+interface RankedRepository {
+  complexityScore: number;
+  migrationWeight: number;
+  row: string;
+}
+
+/**
+ * Running list of the most complex repositories of each enterprise
+ */
+export type TopRepositories = Map<string, RankedRepository[]>;
+
+/**
+ * Escape text for a Markdown table cell
+ */
+function escapeCell(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Escape text for a heading or a line of prose, so names are read literally.
+ * Underscores inside a word cannot start emphasis and are left as they are.
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/[\\`*[\]<>#|~&]|(?<![A-Za-z0-9])_|_(?![A-Za-z0-9])/g, "\\$&")
+    .replace(/\n/g, " ");
+}
+
+/**
+ * Count of repositories, as "1 repository" or "2 repositories"
+ */
+function repositoryCount(count: number): string {
+  return `${formatNumber(count)} ${
+    count === 1 ? "repository" : "repositories"
+  }`;
+}
+
+/**
+ * Format a number with at most two decimals
+ */
+function formatNumber(value: number): string {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+/**
+ * Format a Markdown table row
+ */
+function tableRow(cells: (string | number)[]): string {
+  return `| ${cells
+    .map((cell) =>
+      typeof cell === "number" ? formatNumber(cell) : escapeCell(cell)
+    )
+    .join(" | ")} |\n`;
+}
+
+/**
+ * Format a Markdown table header
+ * @param numeric - Names of the columns to right-align
+ */
+function tableHeader(columns: string[], numeric: string[]): string {
+  return (
+    tableRow(columns) +
+    `| ${columns
+      .map((column) => (numeric.includes(column) ? "--:" : "---"))
+      .join(" | ")} |\n`
+  );
+}
+
+/**
+ * Wrap a list in a collapsed block when it has more rows than the limit
+ */
+function collapsible(
+  summary: string,
+  body: string,
+  rows: number,
+  collapseAfter: number
+): string {
+  if (collapseAfter === 0 || rows <= collapseAfter) {
+    return body;
+  }
+  return `<details>\n<summary>${summary}</summary>\n\n${body}\n</details>\n`;
+}
+
+/**
+ * Display name of a repository's enterprise
+ */
+function enterpriseName(detail: CohortDetail): string {
+  return detail.enterpriseName || "Unknown";
+}
+
+// =============================================================================
+// RUNNING LISTS
+// =============================================================================
+
+/**
+ * Create empty most complex lists
+ */
+export function createTopRepositories(): TopRepositories {
+  return new Map();
+}
+
+/**
+ * Add a repository to the most complex list of its enterprise, keeping the
+ * configured number of repositories with the highest complexity score (then
+ * weight)
+ */
+export function addToTopRepositories(
+  top: TopRepositories,
+  detail: CohortDetail,
+  config: AnalysisConfig
+): void {
+  const limit = config.MARKDOWN.TOP_COMPLEX_PER_ENTERPRISE;
+  if (limit === 0) {
+    return;
+  }
+
+  const enterprise = enterpriseName(detail);
+  const ranked = top.get(enterprise) ?? [];
+  ranked.push({
+    complexityScore: detail.complexityScore,
+    migrationWeight: detail.migrationWeight,
+    row: tableRow([
+      `${detail.organizationName}/${detail.repositoryName}`,
+      detail.cohort,
+      detail.complexityScore,
+      detail.gapScore,
+      detail.migrationWeight,
+    ]),
+  });
+  ranked.sort(
+    (a, b) =>
+      b.complexityScore - a.complexityScore ||
+      b.migrationWeight - a.migrationWeight
+  );
+  top.set(enterprise, ranked.slice(0, limit));
+}
+
+/**
+ * Format one repository as a line of its cohort's list, tagged with the
+ * cohort so the lines can be grouped as they are replayed
+ */
+export function formatMarkdownRepositoryLine(detail: CohortDetail): string {
+  return JSON.stringify([
+    detail.cohort,
+    tableRow([
+      `${detail.organizationName}/${detail.repositoryName}`,
+      enterpriseName(detail),
+      detail.migrationWeight,
+      detail.migrationReasons || detail.summary,
+    ]),
+  ]);
+}
+
+// =============================================================================
+// SECTIONS
+// =============================================================================
+
+/**
+ * Overall cohort summary table
+ */
+function formatCohortSummary(summaries: CohortSummary[]): string {
+  const columns = [
+    "Cohort",
+    "Repositories",
+    "Avg Weight",
+    "Avg Complexity",
+    "Avg Gap",
+  ];
+  let markdown = tableHeader(columns, columns.slice(1));
+  for (const summary of summaries) {
+    markdown += tableRow([
+      summary.cohortName,
+      summary.repositoryCount,
+      summary.averageWeight,
+      summary.averageComplexityScore,
+      summary.averageGapScore,
+    ]);
+  }
+  return markdown;
+}
+
+/**
+ * Enterprise by cohort pivot of repository counts
+ */
+function formatEnterprisePivot(sections: ReportSections): string {
+  const cohorts = sections.cohortSummaries.map((summary) => summary.cohortName);
+  let markdown = tableHeader(
+    ["Enterprise", "Total", ...cohorts],
+    ["Total", ...cohorts]
+  );
+  for (const enterprise of sections.enterpriseSummaries) {
+    markdown += tableRow([
+      enterprise.enterpriseName,
+      enterprise.totalRepositories,
+      ...cohorts.map(
+        (cohort) =>
+          enterprise.cohortSummaries.find(
+            (summary) => summary.cohortName === cohort
+          )?.repositoryCount ?? 0
+      ),
+    ]);
+  }
+  return markdown;
+}
+
+/**
+ * Most complex repositories of each enterprise
+ */
+function formatTopRepositories(
+  sections: ReportSections,
+  top: TopRepositories,
+  config: AnalysisConfig
+): string {
+  let markdown = "";
+  for (const enterprise of sections.enterpriseSummaries) {
+    const ranked = top.get(enterprise.enterpriseName) ?? [];
+    if (ranked.length === 0) {
+      continue;
+    }
+    markdown += `\n### ${escapeText(enterprise.enterpriseName)}\n\n`;
+    markdown += collapsible(
+      `Top ${ranked.length} of ${repositoryCount(
+        enterprise.totalRepositories
+      )}`,
+      tableHeader(
+        ["Repository", "Cohort", "Complexity", "Gap", "Weight"],
+        ["Complexity", "Gap", "Weight"]
+      ) + ranked.map((repo) => repo.row).join(""),
+      ranked.length,
+      config.MARKDOWN.COLLAPSE_AFTER
+    );
+  }
+  return markdown;
+}
+
+/**
+ * Format the Markdown report: the summary sections, then the repositories of
+ * each cohort as they are replayed
+ * @param top - Most complex repositories of each enterprise
+ * @param lines - Repository lines sorted by cohort (see
+ * formatMarkdownRepositoryLine)
+ */
+export async function* formatMarkdownReport(
+  sections: ReportSections,
+  top: TopRepositories,
+  lines: AsyncIterable<string>,
+  config: AnalysisConfig
+): AsyncGenerator<string> {
+  const { metadata } = sections;
+  const {
+    MAX_REPOSITORIES_PER_COHORT: maxListed,
+    COLLAPSE_AFTER: collapseAfter,
+  } = config.MARKDOWN;
+
+  yield `# Migration cohort report
+
+_Generated ${metadata.generatedAt} by ${metadata.tool.name} ${
+    metadata.tool.version
+  }: ${repositoryCount(metadata.totals.repositories)} classified${
+    metadata.separateArchivedTrack
+      ? `, ${repositoryCount(
+          metadata.totals.archivedRepositories
+        )} archived and reported separately`
+      : ""
+  }._
+
+## Overall cohort summary
+
+${formatCohortSummary(sections.cohortSummaries)}
+## Enterprise by cohort
+
+${formatEnterprisePivot(sections)}
+## Most complex repositories per enterprise
+${formatTopRepositories(sections, top, config)}
+## Repositories by cohort
+`;
+
+  // Close the list of a cohort, counting the repositories not listed
+  const counts = new Map(
+    sections.cohortSummaries.map((summary) => [
+      summary.cohortName,
+      summary.repositoryCount,
+    ])
+  );
+  const closeCohort = (cohort: string): string => {
+    const count = counts.get(cohort) ?? 0;
+    const listed = maxListed === 0 ? count : Math.min(count, maxListed);
+    return (
+      (collapseAfter !== 0 && listed > collapseAfter ? "\n</details>\n" : "") +
+      (count > listed ? `\n_... and ${count - listed} more_\n` : "")
+    );
+  };
+
+  let current: string | undefined;
+  let listed = 0;
+  for await (const line of lines) {
+    const [cohort, row] = JSON.parse(line) as [string, string];
+    if (cohort !== current) {
+      if (current !== undefined) {
+        yield closeCohort(current);
+      }
+      current = cohort;
+      listed = 0;
+
+      const count = counts.get(cohort) ?? 0;
+      const shown = maxListed === 0 ? count : Math.min(count, maxListed);
+      yield `\n### ${escapeText(cohort)} (${repositoryCount(count)})\n\n`;
+      if (collapseAfter !== 0 && shown > collapseAfter) {
+        yield `<details>\n<summary>${
+          shown < count ? `Top ${shown} by weight` : repositoryCount(count)
+        }</summary>\n\n`;
+      }
+      yield tableHeader(
+        ["Repository", "Enterprise", "Weight", "Reasons"],
+        ["Weight"]
+      );
+    }
+    if (maxListed === 0 || listed < maxListed) {
+      yield row;
+    }
+    listed++;
+  }
+  if (current !== undefined) {
+    yield closeCohort(current);
+  }
+}
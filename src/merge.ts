@@ -0,0 +1,321 @@
+/**
+ * Merging of input files: rows for the same repository, identified by
+ * Enterprise/Org_Name/Repo_Name, are resolved into one row by the duplicate
+ * policy
+ */
+
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DuplicatePolicy, NormalizedRepository, RowSource } from "./types.js";
+import { NormalizedRow } from "./normalize.js";
+import { addToSpool, createSpool, drainSpool } from "./stream.js";
+import {
+  CsvFormat,
+  DEFAULT_CSV_FORMAT,
+  formatCsvBanner,
+  formatCsvHeader,
+  formatCsvRow,
+  formatCsvTable,
+} from "./csv.js";
+
+/**
+ * Supported duplicate policies
+ */
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = [
+  "last-wins",
+  "max",
+  "error",
+];
+
+/**
+ * Whether a value names a supported duplicate policy
+ */
+export function isDuplicatePolicy(value: string): value is DuplicatePolicy {
+  return (DUPLICATE_POLICIES as string[]).includes(value);
+}
+
+/**
+ * Key identifying a repository across input files
+ */
+export function repositoryKey(repo: NormalizedRepository): string {
+  return `${repo.Enterprise}/${repo.Org_Name}/${repo.Repo_Name}`;
+}
+
+/**
+ * Every input row a repository was read from: its own row and the duplicates
+ * resolved into it
+ */
+export function repositorySources(repo: NormalizedRepository): RowSource[] {
+  return [repo.source, ...repo.duplicates];
+}
+
+/**
+ * Format a row location as file:row
+ */
+function formatSource(source: RowSource): string {
+  return `${source.file}:${source.row}`;
+}
+
+/**
+ * Resolve a row into the row kept so far for the same repository. The result
+ * takes the source of the row read last and records the earlier rows as
+ * duplicates.
+ */
+function resolveDuplicate(
+  kept: NormalizedRow,
+  incoming: NormalizedRow,
+  policy: DuplicatePolicy
+): NormalizedRow {
+  if (policy === "error") {
+    throw new Error(
+      `Duplicate repository ${repositoryKey(
+        incoming.repository
+      )} in ${formatSource(kept.repository.source)} and ${formatSource(
+        incoming.repository.source
+      )} (duplicate policy: error)`
+    );
+  }
+
+  const duplicates = [
+    ...kept.repository.duplicates,
+    kept.repository.source,
+    ...incoming.repository.duplicates,
+  ];
+  if (policy === "last-wins") {
+    return {
+      repository: { ...incoming.repository, duplicates },
+      diagnostics: incoming.diagnostics,
+    };
+  }
+
+  // max: the largest count and any true flag of either row
+  const merged: Record<string, unknown> = {
+    ...incoming.repository,
+    duplicates,
+  };
+  for (const [column, value] of Object.entries(kept.repository)) {
+    const current = merged[column];
+    if (typeof value === "number" && typeof current === "number") {
+      merged[column] = Math.max(value, current);
+    } else if (typeof value === "boolean" && typeof current === "boolean") {
+      merged[column] = value || current;
+    }
+  }
+  return {
+    repository: merged as unknown as NormalizedRepository,
+    diagnostics: [...kept.diagnostics, ...incoming.diagnostics],
+  };
+}
+
+/**
+ * Merge rows in memory, resolving duplicates. Repositories keep the position
+ * of their first row.
+ */
+export function mergeRows(
+  rows: Iterable<NormalizedRow>,
+  policy: DuplicatePolicy
+): NormalizedRow[] {
+  const merged = new Map<string, NormalizedRow>();
+  for (const row of rows) {
+    const key = repositoryKey(row.repository);
+    const kept = merged.get(key);
+    merged.set(key, kept ? resolveDuplicate(kept, row, policy) : row);
+  }
+  return [...merged.values()];
+}
+
+/**
+ * A streamed row spooled for merging, with the position it was read at
+ */
+interface SpooledRow {
+  key: string;
+  position: number;
+  row: NormalizedRow;
+}
+
+/**
+ * Merge streamed rows, resolving duplicates with bounded memory. Rows are
+ * spooled grouped by repository to find duplicates, then spooled again so
+ * repositories come out at the position of their first row, as with
+ * mergeRows.
+ * @param onDuplicate - Called with each row repeating a repository, as read,
+ * and the source of the repository's first row
+ */
+export async function* mergeRowStream(
+  rows: AsyncIterable<NormalizedRow>,
+  policy: DuplicatePolicy,
+  onDuplicate?: (row: NormalizedRow, first: RowSource) => void
+): AsyncGenerator<NormalizedRow> {
+  const spoolDirectory = mkdtempSync(
+    join(tmpdir(), "cohort-identifier-merge-")
+  );
+
+  try {
+    const byRepository = createSpool(spoolDirectory, "by-repository");
+    let position = 0;
+    for await (const row of rows) {
+      const key = repositoryKey(row.repository);
+      const spooled: SpooledRow = { key, position, row };
+      addToSpool(byRepository, [key, position], JSON.stringify(spooled));
+      position++;
+    }
+
+    // Rows of a repository are now adjacent, in read order
+    const byFirstRow = createSpool(spoolDirectory, "by-first-row");
+    let group: SpooledRow | undefined;
+    let first: RowSource | undefined;
+    let duplicateCount = 0;
+    const flushGroup = () => {
+      if (group) {
+        addToSpool(byFirstRow, [group.position], JSON.stringify(group.row));
+      }
+    };
+    for await (const line of drainSpool(byRepository)) {
+      const spooled = JSON.parse(line) as SpooledRow;
+      if (group && group.key === spooled.key) {
+        onDuplicate?.(spooled.row, first!);
+        group.row = resolveDuplicate(group.row, spooled.row, policy);
+        duplicateCount++;
+        continue;
+      }
+      flushGroup();
+      group = spooled;
+      first = spooled.row.repository.source;
+    }
+    flushGroup();
+
+    if (duplicateCount > 0) {
+      console.log(
+        `Resolved ${duplicateCount} duplicate repository row(s) (duplicate policy: ${policy})`
+      );
+    }
+
+    for await (const line of drainSpool(byFirstRow)) {
+      yield JSON.parse(line) as NormalizedRow;
+    }
+  } finally {
+    rmSync(spoolDirectory, { recursive: true, force: true });
+  }
+}
+
+// =============================================================================
+// MERGE REPORT
+// =============================================================================
+
+/**
+ * Rows read and kept from one input file
+ */
+export interface MergeFileCounts {
+  rowsRead: number;
+  rowsKept: number;
+}
+
+/**
+ * Add a merged repository to running per-file counts
+ */
+export function addMergeCounts(
+  counts: Map<string, MergeFileCounts>,
+  repo: NormalizedRepository
+): void {
+  // Earlier rows first, so files are listed roughly in read order
+  for (const source of [...repo.duplicates, repo.source]) {
+    if (!counts.has(source.file)) {
+      counts.set(source.file, { rowsRead: 0, rowsKept: 0 });
+    }
+    const fileCounts = counts.get(source.file)!;
+    fileCounts.rowsRead++;
+    if (source === repo.source) {
+      fileCounts.rowsKept++;
+    }
+  }
+}
+
+/**
+ * Column headers of the repository sources table
+ */
+export const MERGE_REPORT_CSV_HEADERS = [
+  "Repository",
+  "Organization",
+  "Enterprise",
+  "Source File",
+  "Source Row",
+  "Duplicate Rows",
+];
+
+/**
+ * Format the rows read and kept from each input file as a table
+ */
+export function formatMergeFileTable(
+  counts: Map<string, MergeFileCounts>,
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  return formatCsvTable(
+    ["File", "Rows Read", "Rows Kept", "Duplicate Rows"],
+    [...counts].map(([file, { rowsRead, rowsKept }]) => [
+      file,
+      rowsRead,
+      rowsKept,
+      rowsRead - rowsKept,
+    ]),
+    format
+  );
+}
+
+/**
+ * Format the summary section of the combined merge report (everything before
+ * the repository sources)
+ */
+export function formatMergeSummary(
+  counts: Map<string, MergeFileCounts>,
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  let csv = "";
+
+  csv += formatCsvBanner("MERGE SUMMARY", format, true);
+  csv += formatMergeFileTable(counts, format);
+
+  csv += formatCsvBanner("REPOSITORY SOURCES", format);
+  csv += formatCsvHeader(MERGE_REPORT_CSV_HEADERS, format);
+
+  return csv;
+}
+
+/**
+ * Format one merged repository as a row of the merge report
+ */
+export function formatMergeReportCsvRow(
+  repo: NormalizedRepository,
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  return formatCsvRow(
+    [
+      repo.Repo_Name,
+      repo.Org_Name,
+      repo.Enterprise || "Unknown",
+      repo.source.file,
+      repo.source.row,
+      repo.duplicates.map(formatSource).join("; "),
+    ],
+    format
+  );
+}
+
+/**
+ * Export the merge report of merged repositories to CSV format
+ */
+export function exportMergeReportToCsv(
+  repositories: NormalizedRepository[],
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  const counts = new Map<string, MergeFileCounts>();
+  for (const repo of repositories) {
+    addMergeCounts(counts, repo);
+  }
+
+  let csv = formatMergeSummary(counts, format);
+  for (const repo of repositories) {
+    csv += formatMergeReportCsvRow(repo, format);
+  }
+  return csv;
+}
@@ -0,0 +1,421 @@
+/**
+ * Normalization: converts raw repository analysis rows into typed
+ * NormalizedRepository records once, collecting a diagnostic for every cell
+ * that could not be parsed or is written in a nonstandard way
+ */
+
+import {
+  ActivityColumn,
+  ActivityDates,
+  CellDiagnostic,
+  InputColumn,
+  LegacyRepositoryFields,
+  NormalizedRepository,
+  RepositoryAnalysis,
+  RowSource,
+} from "./types.js";
+import {
+  ParsedCell,
+  parseBoolean,
+  parseCount,
+  parseDate,
+  parseDecimal,
+  parseFlagOrCount,
+  parseSizeKb,
+} from "./utils.js";
+import {
+  CsvFormat,
+  DEFAULT_CSV_FORMAT,
+  formatCsvBanner,
+  formatCsvHeader,
+  formatCsvRow,
+  formatCsvTable,
+} from "./csv.js";
+
+/**
+ * Keep a text cell as written
+ */
+function parseText(raw: string | undefined): ParsedCell<string> {
+  return { value: raw ?? "" };
+}
+
+/**
+ * Parser for every input column, keyed so the compiler checks each parser
+ * against the column's type in NormalizedRepository
+ */
+const COLUMN_PARSERS: {
+  [K in keyof RepositoryAnalysis]: (
+    raw: string | undefined
+  ) => ParsedCell<NormalizedRepository[K]>;
+} = {
+  Enterprise: parseText,
+  Org_Name: parseText,
+  Repo_Name: parseText,
+  isArchived: parseBoolean,
+  has_external_collaborators: parseBoolean,
+  issues_linked_to_projects: parseCount,
+  unique_projects_linked_by_issues: parseCount,
+  projects_linked_to_repo: parseCount,
+  app_installations: parseCount,
+  "repository-custom-properties": parseCount,
+  "repository-forks": parseCount,
+  "repository-rulesets": parseCount,
+  watchers: parseCount,
+  "repository-code-scanning-analyses": parseCount,
+  "repository-webhooks": parseCount,
+  "repository-code-scanning-alerts": parseCount,
+  "repository-secret-scanning-alerts": parseCount,
+  "repository-actions-workflow-runs": parseCount,
+  "repository-code-scanning-default-setup": parseFlagOrCount,
+  "repository-dependabot-alerts": parseCount,
+  "repository-packages": parseCount,
+  "repository-releases-gt-5gb": parseCount,
+  "repository-disk-usage": parseSizeKb,
+  "repository-deployments": parseCount,
+  "repository-environments": parseCount,
+  "git-lfs-objects": parseCount,
+  "repository-actions-secrets": parseCount,
+  "repository-actions-self-hosted-runners": parseCount,
+  "repository-dependabot-secrets": parseCount,
+  "repository-actions-variables": parseCount,
+  "git-submodules": parseCount,
+  "repository-discussions": parseCount,
+  "repository-deploy-keys": parseCount,
+  "repository-pages-customdomain": parseCount,
+  "repository-pinned-issues": parseCount,
+  has_unmigratable: parseBoolean,
+  has_maven_packages: parseBoolean,
+  maven_package_count: parseCount,
+  has_codespaces: parseBoolean,
+  codespace_count: parseCount,
+  codespace_user_count: parseCount,
+  has_macos_runners: parseBoolean,
+};
+
+/**
+ * Parser for every legacy-only column of the ghec-analysis format
+ */
+const LEGACY_COLUMN_PARSERS: {
+  [K in keyof LegacyRepositoryFields]: (
+    raw: string | undefined
+  ) => ParsedCell<LegacyRepositoryFields[K]>;
+} = {
+  Is_Empty: parseBoolean,
+  Last_Push: parseText,
+  Last_Update: parseText,
+  isFork: parseBoolean,
+  Repo_Size_mb: parseDecimal,
+  Record_Count: parseCount,
+  Collaborator_Count: parseCount,
+  Protected_Branch_Count: parseCount,
+  PR_Review_Count: parseCount,
+  Milestone_Count: parseCount,
+  Issue_Count: parseCount,
+  PR_Count: parseCount,
+  PR_Review_Comment_Count: parseCount,
+  Commit_Comment_Count: parseCount,
+  Issue_Comment_Count: parseCount,
+  Issue_Event_Count: parseCount,
+  Release_Count: parseCount,
+  Project_Count: parseCount,
+  Branch_Count: parseCount,
+  Tag_Count: parseCount,
+  Discussion_Count: parseCount,
+  Has_Wiki: parseBoolean,
+  Full_URL: parseText,
+  Migration_Issue: parseBoolean,
+  Created: parseText,
+  "repository-releases": parseCount,
+};
+
+/**
+ * Legacy-only columns of the ghec-analysis format
+ */
+export const LEGACY_COLUMNS = Object.keys(
+  LEGACY_COLUMN_PARSERS
+) as (keyof LegacyRepositoryFields)[];
+
+/**
+ * Parser for each optional activity column
+ */
+const ACTIVITY_COLUMN_PARSERS: Record<
+  ActivityColumn,
+  (raw: string | undefined) => ParsedCell<string | undefined>
+> = {
+  Last_Push: parseDate,
+  Created: parseDate,
+};
+
+/**
+ * Optional activity columns, accepted in every input format
+ */
+export const ACTIVITY_COLUMNS = Object.keys(
+  ACTIVITY_COLUMN_PARSERS
+) as ActivityColumn[];
+
+/**
+ * Result of normalizing a set of raw rows
+ */
+export interface NormalizationResult {
+  repositories: NormalizedRepository[];
+  diagnostics: CellDiagnostic[];
+}
+
+/**
+ * A normalized row with the diagnostics of its cells, as produced when
+ * streaming an input file
+ */
+export interface NormalizedRow {
+  repository: NormalizedRepository;
+  diagnostics: CellDiagnostic[];
+}
+
+/**
+ * Normalize one raw row
+ * @param raw - Raw CSV row
+ * @param source - Location of the row, recorded on the result and diagnostics
+ * @param diagnostics - List that receives a diagnostic per unparseable cell
+ */
+export function normalizeRepository(
+  raw: RepositoryAnalysis,
+  source: RowSource,
+  diagnostics: CellDiagnostic[]
+): NormalizedRepository {
+  return {
+    source,
+    duplicates: [],
+    details: {},
+    activity: {},
+    ...parseColumns(COLUMN_PARSERS, raw, source, diagnostics),
+  } as unknown as NormalizedRepository;
+}
+
+/**
+ * Normalize the legacy-only columns of a ghec-analysis row
+ * @param raw - Raw CSV row
+ * @param source - Location of the row, recorded on diagnostics
+ * @param diagnostics - List that receives a diagnostic per unparseable cell
+ */
+export function normalizeLegacyFields(
+  raw: Partial<Record<keyof LegacyRepositoryFields, string>>,
+  source: RowSource,
+  diagnostics: CellDiagnostic[]
+): LegacyRepositoryFields {
+  return parseColumns(
+    LEGACY_COLUMN_PARSERS,
+    raw,
+    source,
+    diagnostics
+  ) as unknown as LegacyRepositoryFields;
+}
+
+/**
+ * Normalize the optional activity columns of a raw row; dates that are
+ * missing or cannot be parsed are left unknown
+ * @param raw - Raw CSV row
+ * @param source - Location of the row, recorded on diagnostics
+ * @param diagnostics - List that receives a diagnostic per unparseable cell
+ */
+export function normalizeActivityDates(
+  raw: Partial<Record<ActivityColumn, string>>,
+  source: RowSource,
+  diagnostics: CellDiagnostic[]
+): ActivityDates {
+  const { Last_Push, Created } = parseColumns(
+    ACTIVITY_COLUMN_PARSERS,
+    raw,
+    source,
+    diagnostics
+  ) as Partial<Record<ActivityColumn, string>>;
+  return {
+    ...(Last_Push && { lastPush: Last_Push }),
+    ...(Created && { created: Created }),
+  };
+}
+
+/**
+ * Parse the cells of a raw row with a parser per column
+ */
+function parseColumns(
+  parsers: Partial<
+    Record<InputColumn, (raw: string | undefined) => ParsedCell<unknown>>
+  >,
+  raw: Partial<Record<InputColumn, string>>,
+  source: RowSource,
+  diagnostics: CellDiagnostic[]
+): Record<string, unknown> {
+  const parsed: Record<string, unknown> = {};
+
+  for (const [column, parser] of Object.entries(parsers) as [
+    InputColumn,
+    (raw: string | undefined) => ParsedCell<unknown>
+  ][]) {
+    const cell = parser(raw[column]);
+    parsed[column] = cell.value;
+    const problem = cell.problem ?? cell.notice;
+    if (problem) {
+      diagnostics.push({
+        ...source,
+        column,
+        value: raw[column] ?? "",
+        problem,
+        ...(!cell.problem && { accepted: true as const }),
+      });
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Normalizes one raw row of an input format
+ */
+export type RowNormalizer = (
+  raw: Record<string, string>,
+  source: RowSource,
+  diagnostics: CellDiagnostic[]
+) => NormalizedRepository;
+
+/**
+ * Normalize the raw rows of an input file
+ * @param rows - Raw CSV rows
+ * @param file - Path of the input file
+ * @param lineNumbers - Line number of each row in the file
+ * @param normalizeRow - Normalizer of the file's input format
+ */
+export function normalizeRepositories(
+  rows: Record<string, string>[],
+  file: string,
+  lineNumbers: number[],
+  normalizeRow: RowNormalizer
+): NormalizationResult {
+  const diagnostics: CellDiagnostic[] = [];
+  const repositories = rows.map((raw, index) =>
+    normalizeRow(
+      raw,
+      { file, row: lineNumbers[index] ?? index + 2 },
+      diagnostics
+    )
+  );
+  return { repositories, diagnostics };
+}
+
+// =============================================================================
+// DATA QUALITY REPORT
+// =============================================================================
+
+/**
+ * Whether a diagnostic is for a cell that could not be parsed, as opposed to
+ * one accepted with a nonstandard spelling
+ */
+export function isUnparsed(diagnostic: CellDiagnostic): boolean {
+  return !diagnostic.accepted;
+}
+
+/**
+ * Add a diagnostic to running per-column counts
+ */
+export function addDiagnosticCount(
+  counts: Map<string, number>,
+  diagnostic: CellDiagnostic
+): void {
+  counts.set(diagnostic.column, (counts.get(diagnostic.column) ?? 0) + 1);
+}
+
+/**
+ * Sort per-column diagnostic counts, most affected column first
+ */
+export function sortDiagnosticCounts(
+  counts: Map<string, number>
+): [string, number][] {
+  return [...counts].sort((a, b) => b[1] - a[1]);
+}
+
+/**
+ * Count diagnostics per column, most affected column first
+ */
+export function countDiagnosticsByColumn(
+  diagnostics: CellDiagnostic[]
+): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const diagnostic of diagnostics.filter(isUnparsed)) {
+    addDiagnosticCount(counts, diagnostic);
+  }
+  return sortDiagnosticCounts(counts);
+}
+
+/**
+ * Column headers of the unparsed cells table
+ */
+export const DIAGNOSTIC_CSV_HEADERS = [
+  "File",
+  "Row",
+  "Column",
+  "Value",
+  "Problem",
+];
+
+/**
+ * Format the unparsed cells per column as a table
+ */
+export function formatDiagnosticColumnTable(
+  columnCounts: [string, number][],
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  return formatCsvTable(["Column", "Unparsed Cells"], columnCounts, format);
+}
+
+/**
+ * Format the summary section of the combined data quality report
+ * (everything before the unparsed cells)
+ */
+export function formatDiagnosticSummary(
+  columnCounts: [string, number][],
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  let csv = "";
+
+  csv += formatCsvBanner("DATA QUALITY SUMMARY", format, true);
+  csv += formatDiagnosticColumnTable(columnCounts, format);
+
+  csv += formatCsvBanner("UNPARSED CELLS", format);
+  csv += formatCsvHeader(DIAGNOSTIC_CSV_HEADERS, format);
+
+  return csv;
+}
+
+/**
+ * Format one diagnostic as a row of the data quality report
+ */
+export function formatDiagnosticCsvRow(
+  diagnostic: CellDiagnostic,
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  return formatCsvRow(
+    [
+      diagnostic.file,
+      diagnostic.row,
+      diagnostic.column,
+      diagnostic.value,
+      diagnostic.problem,
+    ],
+    format
+  );
+}
+
+/**
+ * Export parse diagnostics to CSV format
+ */
+export function exportDiagnosticsToCsv(
+  diagnostics: CellDiagnostic[],
+  format: CsvFormat = DEFAULT_CSV_FORMAT
+): string {
+  let csv = formatDiagnosticSummary(
+    countDiagnosticsByColumn(diagnostics),
+    format
+  );
+  for (const diagnostic of diagnostics.filter(isUnparsed)) {
+    csv += formatDiagnosticCsvRow(diagnostic, format);
+  }
+  return csv;
+}
@@ -0,0 +1,201 @@
+/**
+ * Output files: the directory reports are written to, how they are named and
+ * which reports a run writes
+ */
+
+import { mkdirSync } from "fs";
+import { basename, extname, join } from "path";
+import { DEFAULT_INPUT_PATH } from "./data.js";
+
+/**
+ * Reports a run can write
+ */
+export type ReportKind =
+  | "detailed"
+  | "summaries"
+  | "archived"
+  | "data-quality"
+  | "merge"
+  | "audit"
+  | "json"
+  | "html"
+  | "markdown"
+  | "xlsx";
+
+/**
+ * Every report, in the order they are written
+ */
+export const REPORT_KINDS: ReportKind[] = [
+  "detailed",
+  "summaries",
+  "archived",
+  "data-quality",
+  "merge",
+  "audit",
+  "json",
+  "html",
+  "markdown",
+  "xlsx",
+];
+
+/**
+ * Check whether a string names a report
+ */
+export function isReportKind(value: string): value is ReportKind {
+  return (REPORT_KINDS as string[]).includes(value);
+}
+
+/**
+ * Tokens of a file name template
+ */
+export const FILE_NAME_TOKENS = ["name", "date", "time", "input"];
+
+/**
+ * Default output directory
+ */
+const DEFAULT_OUTPUT_DIRECTORY = "output";
+
+/**
+ * Default file name template: the report's own name
+ */
+const DEFAULT_FILE_NAME_TEMPLATE = "{name}";
+
+/**
+ * Options for writing the reports of a run
+ */
+export interface OutputOptions {
+  // Directory the reports are written to, created if missing (default: output)
+  directory?: string;
+  // File name, without extension, with {name}, {date}, {time} and {input}
+  // tokens (default: {name})
+  fileNameTemplate?: string;
+  // Reports to write (default: all)
+  reports?: ReportKind[];
+  // Write the reports to a new folder named after the run's date and time
+  runFolder?: boolean;
+}
+
+/**
+ * Resolved output options of a run
+ */
+export interface OutputPlan {
+  directory: string;
+  fileNameTemplate: string;
+  reports: Set<ReportKind>;
+  // Values of the date, time and input tokens
+  tokens: Record<string, string>;
+}
+
+/**
+ * Replace characters that do not belong in a file name
+ */
+function safeFileName(name: string): string {
+  return name.replace(/[^A-Za-z0-9._-]+/g, "_");
+}
+
+/**
+ * Check a file name template: only known tokens, no directories, and the
+ * {name} token so reports do not overwrite each other
+ */
+function validateFileNameTemplate(template: string): void {
+  for (const [, token] of template.matchAll(/\{([^}]*)\}/g)) {
+    if (!FILE_NAME_TOKENS.includes(token!)) {
+      throw new Error(
+        `Unknown file name token: {${token}} (expected one of: ${FILE_NAME_TOKENS.map(
+          (name) => `{${name}}`
+        ).join(", ")})`
+      );
+    }
+  }
+  if (!template.includes("{name}")) {
+    throw new Error(`File name template must include {name}: ${template}`);
+  }
+  if (/[/\\]/.test(template)) {
+    throw new Error(`File name template must not contain a path: ${template}`);
+  }
+}
+
+/**
+ * Create a new run folder, adding a -2, -3, ... suffix while the name is
+ * taken. The folder is claimed by creating it, so runs started at the same
+ * time never share one.
+ * @returns Path of the folder created
+ */
+function createRunFolder(runFolder: string): string {
+  for (let n = 1; ; n++) {
+    const directory = n === 1 ? runFolder : `${runFolder}-${n}`;
+    try {
+      mkdirSync(directory);
+      return directory;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Resolve the output options of a run and create its output directory
+ * @param inputs - Input files, directories or glob patterns of the run; the
+ * first names the {input} token
+ * @param now - Time of the run, for the {date} and {time} tokens and the run
+ * folder
+ */
+export function createOutputPlan(
+  options: OutputOptions,
+  inputs: string[],
+  now: Date = new Date()
+): OutputPlan {
+  const fileNameTemplate =
+    options.fileNameTemplate ?? DEFAULT_FILE_NAME_TEMPLATE;
+  validateFileNameTemplate(fileNameTemplate);
+
+  // Dates and times are UTC, like the report metadata
+  const iso = now.toISOString();
+  const date = iso.slice(0, 10);
+  const time = iso.slice(11, 19).replace(/:/g, "");
+  const input = inputs[0] ?? DEFAULT_INPUT_PATH;
+  const tokens = {
+    date,
+    time,
+    input: safeFileName(basename(input, extname(input))) || "input",
+  };
+
+  let directory = options.directory ?? DEFAULT_OUTPUT_DIRECTORY;
+  mkdirSync(directory, { recursive: true });
+  if (options.runFolder) {
+    directory = createRunFolder(join(directory, `${date}_${time}`));
+  }
+
+  return {
+    directory,
+    fileNameTemplate,
+    reports: new Set(options.reports ?? REPORT_KINDS),
+    tokens,
+  };
+}
+
+/**
+ * Path of an output file
+ * @param name - The report's own file name, without extension
+ * @param extension - File extension, with its dot
+ */
+export function outputPath(
+  plan: OutputPlan,
+  name: string,
+  extension: string
+): string {
+  const fileName = plan.fileNameTemplate.replace(
+    /\{(\w+)\}/g,
+    (_, token: string) => (token === "name" ? name : plan.tokens[token] ?? "")
+  );
+  return join(plan.directory, fileName + extension);
+}
+
+/**
+ * Check whether a run writes a report
+ */
+export function emitsReport(plan: OutputPlan, report: ReportKind): boolean {
+  return plan.reports.has(report);
+}
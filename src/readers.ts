@@ -0,0 +1,371 @@
+/**
+ * Input file readers: CSV, JSON array and NDJSON inventories, read into rows
+ * of raw cells keyed by column name, in memory or as a stream
+ */
+
+import { createReadStream, readFileSync } from "fs";
+import { extname } from "path";
+import { parse } from "csv-parse/sync";
+import { parse as parseStream } from "csv-parse";
+import { InputFileFormat } from "./types.js";
+import { Schema, isPlainObject, validateSchema } from "./schema.js";
+import { readLines } from "./stream.js";
+
+/**
+ * Supported input file formats
+ */
+export const INPUT_FORMATS: InputFileFormat[] = ["csv", "json", "ndjson"];
+
+/**
+ * Input file format for each recognized file extension
+ */
+const FORMAT_EXTENSIONS: Record<string, InputFileFormat> = {
+  ".csv": "csv",
+  ".json": "json",
+  ".ndjson": "ndjson",
+  ".jsonl": "ndjson",
+};
+
+/**
+ * File extensions of input files, used when reading a directory
+ */
+export const INPUT_FILE_EXTENSIONS = Object.keys(FORMAT_EXTENSIONS);
+
+/**
+ * Schema for a JSON or NDJSON inventory record: a flat object of cell values
+ */
+const JSON_RECORD_SCHEMA: Schema = {
+  type: "record",
+  values: { type: "scalar", nullable: true },
+};
+
+/**
+ * Validation errors listed before the rest are summarized
+ */
+const MAX_REPORTED_RECORD_ERRORS = 10;
+
+/**
+ * csv-parse options shared by the in-memory and streaming readers; the
+ * header row is handled by each reader's columns callback
+ */
+const CSV_PARSE_OPTIONS = {
+  bom: true,
+  skip_empty_lines: true,
+  trim: true,
+  info: true, // Keep line numbers for parse diagnostics
+} as const;
+
+/**
+ * Parsed CSV row with its csv-parse info
+ */
+interface CsvRecord<T> {
+  record: T;
+  info: { lines: number };
+}
+
+/**
+ * Parsed input file: its column names, rows and the row number of each row
+ */
+export interface InputTable<T> {
+  headers: string[];
+  rows: T[];
+  lineNumbers: number[];
+}
+
+/**
+ * Raw input row with its row number
+ */
+export interface InputRecord {
+  record: Record<string, string>;
+  row: number;
+}
+
+/**
+ * Whether a value names a supported input format
+ */
+export function isInputFormat(value: string): value is InputFileFormat {
+  return (INPUT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Determine the format of an input file
+ * @param filePath - Path of the file; its extension selects the format
+ * @param format - Format to use regardless of the extension
+ * @returns The format, CSV when the extension is not recognized
+ */
+export function detectInputFormat(
+  filePath: string,
+  format?: InputFileFormat
+): InputFileFormat {
+  return format ?? FORMAT_EXTENSIONS[extname(filePath).toLowerCase()] ?? "csv";
+}
+
+/**
+ * Generic function to read and parse CSV files
+ * @param filePath - Path to the CSV file
+ * @returns Header row, parsed CSV rows and their line numbers
+ */
+export function readCsvFile<T>(filePath: string): InputTable<T> {
+  try {
+    let fileContent = readFileSync(filePath, "utf-8");
+
+    // Remove BOM if present
+    if (fileContent.charCodeAt(0) === 0xfeff) {
+      fileContent = fileContent.slice(1);
+    }
+
+    let headers: string[] = [];
+    const records = parse(fileContent, {
+      ...CSV_PARSE_OPTIONS,
+      // Use first row as headers, keeping them for validation
+      columns: (header: string[]) => {
+        headers = header;
+        return header;
+      },
+    }) as CsvRecord<T>[];
+
+    return {
+      headers,
+      rows: records.map((r) => r.record),
+      lineNumbers: records.map((r) => r.info.lines),
+    };
+  } catch (error) {
+    console.error(`Error reading CSV file ${filePath}: ${error}`);
+    throw error;
+  }
+}
+
+/**
+ * Throw when any JSON record failed validation
+ */
+function throwRecordErrors(filePath: string, errors: string[]): void {
+  if (errors.length === 0) {
+    return;
+  }
+  const listed = errors.slice(0, MAX_REPORTED_RECORD_ERRORS);
+  if (errors.length > listed.length) {
+    listed.push(`... and ${errors.length - listed.length} more`);
+  }
+  throw new Error(
+    `Input file ${filePath} has invalid records:\n${listed
+      .map((e) => `  - ${e}`)
+      .join("\n")}`
+  );
+}
+
+/**
+ * Validate a JSON record and convert its values to raw cells: numbers and
+ * booleans as text, null as an empty cell
+ * @param label - Location of the record, used in error messages
+ * @param errors - List that receives the validation errors of the record
+ */
+function toRawRecord(
+  value: unknown,
+  label: string,
+  errors: string[]
+): Record<string, string> {
+  const recordErrors = validateSchema(value, JSON_RECORD_SCHEMA);
+  if (recordErrors.length > 0 || !isPlainObject(value)) {
+    errors.push(...recordErrors.map((error) => `${label}: ${error}`));
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, cell]) => [
+      key,
+      cell === null ? "" : String(cell),
+    ])
+  );
+}
+
+/**
+ * Parse a JSON document, naming the file in syntax errors
+ */
+function parseJson(text: string, location: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in ${location}: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+/**
+ * Read a JSON array of inventory records. Its columns are every key used by
+ * any record, in order of first use; rows are numbered by record (from 1).
+ */
+function readJsonFile(filePath: string): InputTable<Record<string, string>> {
+  const document = parseJson(
+    readFileSync(filePath, "utf-8").replace(/^\uFEFF/, ""),
+    filePath
+  );
+  if (!Array.isArray(document)) {
+    throw new Error(
+      `Input file ${filePath} must contain a JSON array of repository records`
+    );
+  }
+
+  const errors: string[] = [];
+  const rows = document.map((value, index) =>
+    toRawRecord(value, `record ${index + 1}`, errors)
+  );
+  throwRecordErrors(filePath, errors);
+
+  const headers = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      headers.add(key);
+    }
+  }
+  return {
+    headers: [...headers],
+    rows,
+    lineNumbers: rows.map((_, index) => index + 1),
+  };
+}
+
+/**
+ * Read an NDJSON file (one record per line) in memory. Its columns are the
+ * keys of the first record; rows are numbered by line.
+ */
+function readNdjsonFile(filePath: string): InputTable<Record<string, string>> {
+  const errors: string[] = [];
+  const rows: Record<string, string>[] = [];
+  const lineNumbers: number[] = [];
+
+  readFileSync(filePath, "utf-8")
+    .replace(/^\uFEFF/, "")
+    .split("\n")
+    .forEach((line, index) => {
+      if (line.trim() === "") {
+        return;
+      }
+      const location = `line ${index + 1}`;
+      rows.push(
+        toRawRecord(
+          parseJson(line, `${filePath}, ${location}`),
+          location,
+          errors
+        )
+      );
+      lineNumbers.push(index + 1);
+    });
+  throwRecordErrors(filePath, errors);
+
+  return { headers: Object.keys(rows[0] ?? {}), rows, lineNumbers };
+}
+
+/**
+ * Read an input file in memory
+ * @param filePath - Path to the input file
+ * @param format - Format of the file
+ * @returns Column names, raw rows and their row numbers
+ */
+export function readInputFile(
+  filePath: string,
+  format: InputFileFormat
+): InputTable<Record<string, string>> {
+  switch (format) {
+    case "csv":
+      return readCsvFile<Record<string, string>>(filePath);
+    case "json":
+      return readJsonFile(filePath);
+    case "ndjson":
+      return readNdjsonFile(filePath);
+  }
+}
+
+/**
+ * Stream the rows of a CSV file
+ */
+async function* streamCsvRecords(
+  filePath: string,
+  onHeaders: (headers: string[]) => void
+): AsyncGenerator<InputRecord> {
+  const parser = parseStream({
+    ...CSV_PARSE_OPTIONS,
+    columns: (header: string[]) => {
+      onHeaders(header);
+      return header;
+    },
+  });
+  const input = createReadStream(filePath);
+  input.once("error", (error) => parser.destroy(error));
+  input.pipe(parser);
+
+  try {
+    for await (const { record, info } of parser as AsyncIterable<
+      CsvRecord<Record<string, string>>
+    >) {
+      yield { record, row: info.lines };
+    }
+  } finally {
+    input.destroy();
+  }
+}
+
+/**
+ * Stream the records of an NDJSON file, one line at a time. The keys of the
+ * first record are reported as the file's columns.
+ */
+async function* streamNdjsonRecords(
+  filePath: string,
+  onHeaders: (headers: string[]) => void
+): AsyncGenerator<InputRecord> {
+  let lineNumber = 0;
+  let first = true;
+
+  for await (const line of readLines(filePath)) {
+    lineNumber++;
+    const text = lineNumber === 1 ? line.replace(/^\uFEFF/, "") : line;
+    if (text.trim() === "") {
+      continue;
+    }
+
+    const location = `line ${lineNumber}`;
+    const errors: string[] = [];
+    const record = toRawRecord(
+      parseJson(text, `${filePath}, ${location}`),
+      location,
+      errors
+    );
+    throwRecordErrors(filePath, errors);
+
+    if (first) {
+      onHeaders(Object.keys(record));
+      first = false;
+    }
+    yield { record, row: lineNumber };
+  }
+}
+
+/**
+ * Stream the rows of an input file. JSON arrays are parsed whole and then
+ * replayed; CSV and NDJSON files are read incrementally.
+ * @param filePath - Path to the input file
+ * @param format - Format of the file
+ * @param onHeaders - Called with the file's columns before its first row
+ */
+export async function* streamInputRecords(
+  filePath: string,
+  format: InputFileFormat,
+  onHeaders: (headers: string[]) => void
+): AsyncGenerator<InputRecord> {
+  switch (format) {
+    case "csv":
+      yield* streamCsvRecords(filePath, onHeaders);
+      return;
+    case "ndjson":
+      yield* streamNdjsonRecords(filePath, onHeaders);
+      return;
+    case "json": {
+      const { headers, rows, lineNumbers } = readJsonFile(filePath);
+      onHeaders(headers);
+      for (const [index, record] of rows.entries()) {
+        yield { record, row: lineNumbers[index] ?? index + 1 };
+      }
+    }
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * Structured JSON report: run metadata, repository details, cohort, tag and
+ * enterprise summaries and data-quality findings in one document, described
+ * by a versioned JSON Schema
+ */
+
+import { readFileSync } from "fs";
+import {
+  AnalysisConfig,
+  CohortSummary,
+  EnterpriseCohortSummary,
+} from "./types.js";
+import { FEATURE_REGISTRY, featureFlagName } from "./features.js";
+import { AUDIT_CHECKS, AuditSummary } from "./audit.js";
+
+/**
+ * Version of the report format. The minor version is raised when fields are
+ * added, the major version (also in the schema file name) when fields are
+ * removed or change meaning.
+ */
+export const REPORT_SCHEMA_VERSION = "1.0.0";
+
+/**
+ * File name of the report's JSON Schema, written next to the report
+ */
+export const REPORT_SCHEMA_FILE = "cohort-analysis-report.v1.schema.json";
+
+/**
+ * Inputs of a run, recorded in the report metadata
+ */
+export interface ReportRunInfo {
+  // Input files, directories or glob patterns as given
+  inputs: string[];
+  // Configuration profile the run was made with
+  configFile?: string;
+}
+
+/**
+ * Metadata of the run that produced a report
+ */
+export interface ReportMetadata {
+  generatedAt: string;
+  tool: { name: string; version: string };
+  inputs: string[];
+  configFile?: string;
+  // Date activity was measured at (YYYY-MM-DD)
+  activityAsOf: string;
+  // Whether archived repositories were classified on a separate track
+  separateArchivedTrack: boolean;
+  totals: {
+    repositories: number;
+    archivedRepositories: number;
+    unparsedCells: number;
+    auditFindings: number;
+  };
+}
+
+/**
+ * Data-quality findings of a run: unparsed cells per column and the input
+ * data audit
+ */
+export interface ReportDataQuality {
+  unparsedCells: {
+    total: number;
+    byColumn: { column: string; cells: number }[];
+  };
+  audit: AuditSummary;
+}
+
+/**
+ * Every section of the report except the repository details, which are
+ * streamed after them
+ */
+export interface ReportSections {
+  metadata: ReportMetadata;
+  cohortSummaries: CohortSummary[];
+  tagSummaries: CohortSummary[];
+  enterpriseSummaries: EnterpriseCohortSummary[];
+  // Summaries of the separate archived track, when there is one
+  archivedSummaries?: CohortSummary[];
+  dataQuality: ReportDataQuality;
+}
+
+/**
+ * Name and version of this tool, from its package.json
+ */
+function toolInfo(): { name: string; version: string } {
+  try {
+    const pkg = JSON.parse(
+      readFileSync(new URL("../package.json", import.meta.url), "utf-8")
+    ) as { name?: string; version?: string };
+    return {
+      name: pkg.name ?? "cohort-identifier",
+      version: pkg.version ?? "unknown",
+    };
+  } catch {
+    return { name: "cohort-identifier", version: "unknown" };
+  }
+}
+
+/**
+ * Build the metadata of a report
+ * @param activityReferenceTime - Date activity was measured at (see
+ * activityReferenceTime)
+ */
+export function createReportMetadata(
+  run: ReportRunInfo,
+  config: AnalysisConfig,
+  activityReferenceTime: number,
+  totals: ReportMetadata["totals"]
+): ReportMetadata {
+  return {
+    generatedAt: new Date().toISOString(),
+    tool: toolInfo(),
+    inputs: run.inputs,
+    ...(run.configFile && { configFile: run.configFile }),
+    activityAsOf: new Date(activityReferenceTime).toISOString().slice(0, 10),
+    separateArchivedTrack: !config.FEATURES.INCLUDE_ARCHIVED_IN_MAIN_ANALYSIS,
+    totals,
+  };
+}
+
+/**
+ * Format the report as JSON: the sections first, then the repository details
+ * as they are replayed
+ * @param details - Repository details, each pretty-printed as an element of
+ * the detailed JSON array (indented by two spaces)
+ */
+export async function* formatReportJson(
+  sections: ReportSections,
+  details: AsyncIterable<string>
+): AsyncGenerator<string> {
+  const head = JSON.stringify(
+    {
+      $schema: REPORT_SCHEMA_FILE,
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      ...sections,
+    },
+    null,
+    2
+  );
+  // Reopen the object to append the repositories array
+  yield `${head.slice(0, -2)},\n  "repositories": `;
+
+  let first = true;
+  for await (const element of details) {
+    yield (first ? "[\n" : ",\n") + element.replace(/^/gm, "  ");
+    first = false;
+  }
+  yield first ? "[]\n}\n" : "\n  ]\n}\n";
+}
+
+// =============================================================================
+// JSON SCHEMA
+// =============================================================================
+
+const NUMBER = { type: "number" };
+const INTEGER = { type: "integer", minimum: 0 };
+const STRING = { type: "string" };
+const BOOLEAN = { type: "boolean" };
+const DATE = { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" };
+
+/**
+ * Object schema requiring every listed property
+ */
+function objectSchema(
+  properties: Record<string, unknown>,
+  optional: string[] = []
+): Record<string, unknown> {
+  return {
+    type: "object",
+    properties,
+    required: Object.keys(properties).filter((key) => !optional.includes(key)),
+  };
+}
+
+/**
+ * Array schema referring to a definition
+ */
+function arrayOf(definition: string): Record<string, unknown> {
+  return { type: "array", items: { $ref: `#/$defs/${definition}` } };
+}
+
+const COHORT_SUMMARY_PROPERTIES = {
+  cohortName: STRING,
+  repositoryCount: INTEGER,
+  totalWeight: NUMBER,
+  averageWeight: NUMBER,
+  averageComplexityScore: NUMBER,
+  averageGapScore: NUMBER,
+};
+
+/**
+ * JSON Schema (draft 2020-12) of the report. Objects accept properties the
+ * schema does not list, so consumers validating against it keep working when
+ * fields are added in a minor version. The feature flags and feature keys are
+ * not required or enumerated, so adding a feature to the registry does not
+ * change the contract.
+ */
+export const REPORT_JSON_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: REPORT_SCHEMA_FILE,
+  title: "Cohort analysis report",
+  description:
+    "Migration cohorts of the repositories in an inventory, with summaries and data-quality findings",
+  ...objectSchema(
+    {
+      $schema: STRING,
+      schemaVersion: { type: "string", pattern: "^1\\.\\d+\\.\\d+$" },
+      metadata: { $ref: "#/$defs/metadata" },
+      cohortSummaries: arrayOf("cohortSummary"),
+      tagSummaries: arrayOf("cohortSummary"),
+      enterpriseSummaries: arrayOf("enterpriseSummary"),
+      archivedSummaries: arrayOf("cohortSummary"),
+      dataQuality: { $ref: "#/$defs/dataQuality" },
+      repositories: arrayOf("repository"),
+    },
+    ["$schema", "archivedSummaries"]
+  ),
+  $defs: {
+    metadata: objectSchema(
+      {
+        generatedAt: { type: "string", format: "date-time" },
+        tool: objectSchema({ name: STRING, version: STRING }),
+        inputs: { type: "array", items: STRING },
+        configFile: STRING,
+        activityAsOf: DATE,
+        separateArchivedTrack: BOOLEAN,
+        totals: objectSchema({
+          repositories: INTEGER,
+          archivedRepositories: INTEGER,
+          unparsedCells: INTEGER,
+          auditFindings: INTEGER,
+        }),
+      },
+      ["configFile"]
+    ),
+    cohortSummary: objectSchema(COHORT_SUMMARY_PROPERTIES),
+    enterpriseSummary: objectSchema({
+      enterpriseName: STRING,
+      cohortSummaries: arrayOf("cohortSummary"),
+      tagSummaries: arrayOf("cohortSummary"),
+      totalRepositories: INTEGER,
+      totalWeight: NUMBER,
+      averageWeight: NUMBER,
+      averageComplexityScore: NUMBER,
+      averageGapScore: NUMBER,
+    }),
+    dataQuality: objectSchema({
+      unparsedCells: objectSchema({
+        total: INTEGER,
+        byColumn: {
+          type: "array",
+          items: objectSchema({ column: STRING, cells: INTEGER }),
+        },
+      }),
+      audit: objectSchema({
+        rowsAudited: INTEGER,
+        totalFindings: INTEGER,
+        checks: {
+          type: "array",
+          items: objectSchema({
+            check: { type: "string", enum: Object.keys(AUDIT_CHECKS) },
+            description: STRING,
+            findings: INTEGER,
+            examples: arrayOf("auditFinding"),
+          }),
+        },
+      }),
+    }),
+    auditFinding: objectSchema({
+      check: { type: "string", enum: Object.keys(AUDIT_CHECKS) },
+      file: STRING,
+      row: INTEGER,
+      enterprise: STRING,
+      repository: STRING,
+      column: STRING,
+      value: STRING,
+      detail: STRING,
+    }),
+    weightContribution: objectSchema({
+      feature: STRING,
+      rawValue: STRING,
+      units: NUMBER,
+      rule: STRING,
+      points: NUMBER,
+      axis: { type: "string", enum: ["complexity", "gap"] },
+    }),
+    activity: objectSchema(
+      {
+        lastActivity: DATE,
+        daysInactive: INTEGER,
+        activityScore: NUMBER,
+        dormant: BOOLEAN,
+      },
+      ["lastActivity", "daysInactive"]
+    ),
+    repository: objectSchema(
+      {
+        repositoryName: STRING,
+        organizationName: STRING,
+        enterpriseName: STRING,
+        cohort: STRING,
+        secondaryCohorts: { type: "array", items: STRING },
+        cohortWeight: NUMBER,
+        migrationWeight: NUMBER,
+        complexityScore: NUMBER,
+        gapScore: NUMBER,
+        migrationReasons: STRING,
+        summary: STRING,
+        featureGapCount: INTEGER,
+        ...Object.fromEntries(
+          FEATURE_REGISTRY.map((feature) => [
+            featureFlagName(feature.key),
+            BOOLEAN,
+          ])
+        ),
+        weightBreakdown: arrayOf("weightContribution"),
+        activity: { $ref: "#/$defs/activity" },
+        legacy: { type: "object" },
+      },
+      [
+        ...FEATURE_REGISTRY.map((feature) => featureFlagName(feature.key)),
+        "legacy",
+      ]
+    ),
+  },
+};
@@ -0,0 +1,540 @@
+/**
+ * Declarative cohort rule engine: an ordered list of rules where the first
+ * rule whose condition matches a repository assigns its cohort
+ */
+
+import { REPOSITORY_ANALYSIS_COLUMNS } from "./adapters.js";
+import { LEGACY_COLUMNS } from "./normalize.js";
+import { Schema } from "./schema.js";
+import {
+  AnalysisConfig,
+  CohortRule,
+  InputColumn,
+  LegacyRepositoryFields,
+  NormalizedRepository,
+  RepositoryAnalysis,
+  RepositoryScores,
+  RuleCondition,
+  ScoreAxis,
+} from "./types.js";
+
+/**
+ * Cohort assigned when no rule matches (only possible with custom rule sets
+ * that do not end in a catch-all rule)
+ */
+export const UNASSIGNED_COHORT = "UNASSIGNED";
+
+/**
+ * Summary template used when a rule does not define one
+ */
+const DEFAULT_SUMMARY_TEMPLATE = "Migration weight: {weight}";
+
+// =============================================================================
+// DEFAULT RULE SET
+// =============================================================================
+
+/**
+ * Build the default rule set from the configured thresholds and feature toggles
+ */
+export function buildDefaultRules(config: AnalysisConfig): CohortRule[] {
+  const rules: CohortRule[] = [];
+
+  const matrix = config.FEATURES.MATRIX_CLASSIFICATION;
+
+  // Unmigratable repositories get their own cohort if enabled; otherwise they
+  // are only tagged
+  rules.push({
+    name: "UNMIGRATABLE",
+    role: config.FEATURES.SEPARATE_UNMIGRATABLE_COHORT ? "both" : "tag",
+    when: { type: "equals", column: "has_unmigratable", value: true },
+    summary:
+      "Repository has features that cannot be migrated - requires special handling",
+  });
+
+  // Archived repositories get their own cohort, unless they are classified
+  // with the active repositories, in which case they are only tagged
+  rules.push({
+    name: "ARCHIVED",
+    role: config.FEATURES.INCLUDE_ARCHIVED_IN_MAIN_ANALYSIS ? "tag" : "both",
+    when: { type: "equals", column: "isArchived", value: true },
+    summary: "Archived repository - lower migration priority",
+  });
+
+  // Dormant repositories get their own cohort if enabled; otherwise they are
+  // only tagged. Heavy ones are also tagged as candidates for archiving
+  // before they are migrated.
+  rules.push(
+    {
+      name: "DORMANT",
+      role: config.FEATURES.SEPARATE_DORMANT_COHORT ? "both" : "tag",
+      when: { type: "dormant" },
+      summary:
+        "Dormant repository (activity score: {activityScore}) - confirm it is still needed before migrating",
+    },
+    {
+      name: "ARCHIVE_THEN_MIGRATE",
+      role: "tag",
+      when: {
+        type: "allOf",
+        conditions: [
+          { type: "dormant" },
+          {
+            type: "weightRange",
+            min: config.ACTIVITY.ARCHIVE_THEN_MIGRATE_MIN_WEIGHT,
+          },
+        ],
+      },
+      summary:
+        "Dormant repository with a heavy migration (weight: {weight}) - archive, then migrate",
+    }
+  );
+
+  // macOS runners, Maven packages and Codespaces get separate cohorts if
+  // enabled (and not classified by the matrix); otherwise they are only tagged
+  rules.push(
+    {
+      name: "MACOS_RUNNERS",
+      role: config.FEATURES.SEPARATE_MACOS_COHORT && !matrix ? "both" : "tag",
+      when: { type: "equals", column: "has_macos_runners", value: true },
+      summary:
+        "Repository with macOS runners - requires runner migration planning",
+    },
+    {
+      name: "MAVEN_PACKAGES",
+      role: config.FEATURES.SEPARATE_MAVEN_COHORT && !matrix ? "both" : "tag",
+      when: { type: "equals", column: "has_maven_packages", value: true },
+      summary:
+        "Repository with Maven packages - requires package migration planning",
+    },
+    {
+      name: "CODESPACES",
+      role:
+        config.FEATURES.SEPARATE_CODESPACE_COHORT && !matrix ? "both" : "tag",
+      when: { type: "equals", column: "has_codespaces", value: true },
+      summary:
+        "Repository with Codespaces usage - requires Codespaces migration planning",
+    }
+  );
+
+  // Complexity x gap matrix replaces the gap cohorts and weight bands
+  if (matrix) {
+    rules.push(...buildMatrixRules(config));
+    return rules;
+  }
+
+  // Weight bands; first match wins so each band only needs an upper bound
+  rules.push(
+    {
+      name: "CLEAN",
+      when: {
+        type: "weightRange",
+        max: config.THRESHOLDS.CLEAN_REPO_MAX_WEIGHT,
+      },
+      summary:
+        "Clean repository with no migration blockers - can migrate easily",
+    },
+    {
+      name: "LOW_COMPLEXITY",
+      when: {
+        type: "weightRange",
+        max: config.THRESHOLDS.LOW_COMPLEXITY_MAX_WEIGHT,
+      },
+      summary:
+        "Low complexity migration (weight: {weight}) - {reasonCount} minor issues",
+    },
+    {
+      name: "MEDIUM_COMPLEXITY",
+      when: {
+        type: "weightRange",
+        max: config.THRESHOLDS.MEDIUM_COMPLEXITY_MAX_WEIGHT,
+      },
+      summary:
+        "Medium complexity migration (weight: {weight}) - {reasonCount} moderate issues",
+    },
+    {
+      name: "HIGH_COMPLEXITY",
+      summary:
+        "High complexity migration (weight: {weight}) - {reasonCount} major issues",
+    }
+  );
+
+  return rules;
+}
+
+/**
+ * Build one rule per cell of the complexity x gap matrix. Cells are ordered by
+ * complexity band, then gap band, so with first-match-wins each condition only
+ * needs the upper bound of its bands.
+ */
+export function buildMatrixRules(config: AnalysisConfig): CohortRule[] {
+  const { COMPLEXITY_BANDS, GAP_BANDS, COHORTS } = config.MATRIX;
+  const rules: CohortRule[] = [];
+
+  for (const complexity of COMPLEXITY_BANDS) {
+    for (const gap of GAP_BANDS) {
+      const cell = `${complexity.name}/${gap.name}`;
+      const conditions: RuleCondition[] = [];
+      if (complexity.max !== undefined) {
+        conditions.push({
+          type: "scoreRange",
+          score: "complexity",
+          max: complexity.max,
+        });
+      }
+      if (gap.max !== undefined) {
+        conditions.push({ type: "scoreRange", score: "gap", max: gap.max });
+      }
+
+      const rule: CohortRule = {
+        name: COHORTS[cell] ?? cell,
+        summary: `${complexity.name} complexity (score: {complexityScore}), ${gap.name} (gap score: {gapScore}) - {reasonCount} issues`,
+      };
+      if (conditions.length > 0) {
+        rule.when = { type: "allOf", conditions };
+      }
+      rules.push(rule);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Get the rule set to evaluate: custom RULES from the configuration when
+ * provided, otherwise the default rule set
+ */
+export function getCohortRules(config: AnalysisConfig): CohortRule[] {
+  return config.RULES ?? buildDefaultRules(config);
+}
+
+// =============================================================================
+// RULE SCHEMA
+// =============================================================================
+
+const COLUMN_SCHEMA: Schema = {
+  type: "string",
+  enum: [...REPOSITORY_ANALYSIS_COLUMNS, ...LEGACY_COLUMNS],
+};
+
+const CONDITION_VARIANTS: Record<string, Schema> = {};
+
+/**
+ * Schema for a rule condition (recursive through anyOf/allOf)
+ */
+const CONDITION_SCHEMA: Schema = {
+  type: "union",
+  discriminator: "type",
+  variants: CONDITION_VARIANTS,
+};
+
+const CONDITION_LIST_SCHEMA: Schema = {
+  type: "array",
+  items: CONDITION_SCHEMA,
+  minItems: 1,
+};
+
+Object.assign(CONDITION_VARIANTS, {
+  equals: {
+    type: "object",
+    properties: {
+      type: { type: "string" },
+      column: COLUMN_SCHEMA,
+      value: { type: "scalar" },
+    },
+    required: ["column", "value"],
+  },
+  greaterThan: {
+    type: "object",
+    properties: {
+      type: { type: "string" },
+      column: COLUMN_SCHEMA,
+      value: { type: "number" },
+    },
+    required: ["column", "value"],
+  },
+  anyOf: {
+    type: "object",
+    properties: { type: { type: "string" }, conditions: CONDITION_LIST_SCHEMA },
+    required: ["conditions"],
+  },
+  allOf: {
+    type: "object",
+    properties: { type: { type: "string" }, conditions: CONDITION_LIST_SCHEMA },
+    required: ["conditions"],
+  },
+  weightRange: {
+    type: "object",
+    properties: {
+      type: { type: "string" },
+      min: { type: "number" },
+      max: { type: "number" },
+    },
+  },
+  scoreRange: {
+    type: "object",
+    properties: {
+      type: { type: "string" },
+      score: { type: "string", enum: ["complexity", "gap", "activity"] },
+      min: { type: "number" },
+      max: { type: "number" },
+    },
+    required: ["score"],
+  },
+  dormant: {
+    type: "object",
+    properties: { type: { type: "string" } },
+  },
+} satisfies Record<RuleCondition["type"], Schema>);
+
+/**
+ * Schema for a list of cohort rules in a configuration file
+ */
+export const RULES_SCHEMA: Schema = {
+  type: "array",
+  minItems: 1,
+  items: {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1 },
+      role: { type: "string", enum: ["primary", "tag", "both"] },
+      when: CONDITION_SCHEMA,
+      summary: { type: "string" },
+    },
+    required: ["name"],
+  },
+};
+
+// =============================================================================
+// RULE EVALUATION
+// =============================================================================
+
+/**
+ * Check whether a value lies within optional inclusive bounds
+ */
+function isInRange(
+  value: number,
+  min: number | undefined,
+  max: number | undefined
+): boolean {
+  return (
+    (min === undefined || value >= min) && (max === undefined || value <= max)
+  );
+}
+
+/**
+ * Read a normalized column value as a boolean (counts are true when non-zero)
+ */
+function asBoolean(value: string | number | boolean): boolean {
+  return typeof value === "string" ? value !== "" : Boolean(value);
+}
+
+/**
+ * Read a normalized column value as a number (flags are 1 or 0)
+ */
+function asNumber(value: string | number | boolean): number {
+  return Number(value);
+}
+
+/**
+ * Read the value of a rule column. Activity columns hold their normalized
+ * date (YYYY-MM-DD) in any format; other legacy-only columns are empty for
+ * repositories not read from the legacy format.
+ */
+function readColumn(
+  repo: NormalizedRepository,
+  column: InputColumn
+): string | number | boolean {
+  if (column === "Last_Push") {
+    return repo.activity.lastPush ?? "";
+  }
+  if (column === "Created") {
+    return repo.activity.created ?? "";
+  }
+  if ((LEGACY_COLUMNS as string[]).includes(column)) {
+    return repo.legacy?.[column as keyof LegacyRepositoryFields] ?? "";
+  }
+  return repo[column as keyof RepositoryAnalysis];
+}
+
+/**
+ * Read one of the scores a repository is classified on
+ */
+function readScore(
+  scores: RepositoryScores,
+  score: ScoreAxis | "activity"
+): number {
+  switch (score) {
+    case "complexity":
+      return scores.complexityScore;
+    case "gap":
+      return scores.gapScore;
+    case "activity":
+      return scores.activityScore;
+  }
+}
+
+/**
+ * Evaluate a rule condition against a repository
+ */
+export function evaluateCondition(
+  condition: RuleCondition,
+  repo: NormalizedRepository,
+  scores: RepositoryScores
+): boolean {
+  switch (condition.type) {
+    case "equals": {
+      const actual = readColumn(repo, condition.column);
+      if (typeof condition.value === "boolean") {
+        return asBoolean(actual) === condition.value;
+      }
+      if (typeof condition.value === "number") {
+        return asNumber(actual) === condition.value;
+      }
+      return String(actual) === condition.value;
+    }
+    case "greaterThan":
+      return asNumber(readColumn(repo, condition.column)) > condition.value;
+    case "anyOf":
+      return condition.conditions.some((c) =>
+        evaluateCondition(c, repo, scores)
+      );
+    case "allOf":
+      return condition.conditions.every((c) =>
+        evaluateCondition(c, repo, scores)
+      );
+    case "weightRange":
+      return isInRange(scores.migrationWeight, condition.min, condition.max);
+    case "scoreRange":
+      return isInRange(
+        readScore(scores, condition.score),
+        condition.min,
+        condition.max
+      );
+    case "dormant":
+      return scores.dormant;
+  }
+}
+
+/**
+ * Check whether a rule matches a repository
+ */
+function ruleMatches(
+  rule: CohortRule,
+  repo: NormalizedRepository,
+  scores: RepositoryScores
+): boolean {
+  return !rule.when || evaluateCondition(rule.when, repo, scores);
+}
+
+/**
+ * Find the first rule that can assign a primary cohort and matches a repository
+ * @returns The matching rule, or undefined when no rule matches
+ */
+export function matchCohortRule(
+  repo: NormalizedRepository,
+  scores: RepositoryScores,
+  rules: CohortRule[]
+): CohortRule | undefined {
+  return rules.find(
+    (rule) => rule.role !== "tag" && ruleMatches(rule, repo, scores)
+  );
+}
+
+/**
+ * Find the secondary cohort tags of a repository: every matching tag rule
+ * other than the primary cohort
+ */
+export function matchCohortTags(
+  repo: NormalizedRepository,
+  scores: RepositoryScores,
+  rules: CohortRule[],
+  primaryCohort: string
+): string[] {
+  const tags = new Set<string>();
+  for (const rule of rules) {
+    if (
+      (rule.role === "tag" || rule.role === "both") &&
+      rule.name !== primaryCohort &&
+      ruleMatches(rule, repo, scores)
+    ) {
+      tags.add(rule.name);
+    }
+  }
+  return [...tags];
+}
+
+/**
+ * Render a rule's summary template for a repository
+ */
+export function renderSummary(
+  rule: CohortRule | undefined,
+  reasons: string[],
+  scores: RepositoryScores
+): string {
+  const template = rule?.summary ?? DEFAULT_SUMMARY_TEMPLATE;
+  const values: Record<string, string> = {
+    cohort: rule?.name ?? UNASSIGNED_COHORT,
+    weight: String(scores.migrationWeight),
+    complexityScore: String(scores.complexityScore),
+    gapScore: String(scores.gapScore),
+    activityScore: String(scores.activityScore),
+    reasonCount: String(reasons.length),
+  };
+
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key]! : match
+  );
+}
+
+/**
+ * Describe optional inclusive bounds, e.g. "weight 1-10" or "gap score <= 0"
+ */
+function describeRange(
+  label: string,
+  min: number | undefined,
+  max: number | undefined
+): string {
+  if (min !== undefined && max !== undefined) {
+    return `${label} ${min}-${max}`;
+  }
+  if (min !== undefined) {
+    return `${label} >= ${min}`;
+  }
+  return max !== undefined ? `${label} <= ${max}` : `any ${label}`;
+}
+
+/**
+ * Describe a rule condition in readable form, e.g. "has_macos_runners = true"
+ */
+export function describeCondition(
+  condition: RuleCondition | undefined
+): string {
+  if (!condition) {
+    return "always";
+  }
+
+  switch (condition.type) {
+    case "equals":
+      return `${condition.column} = ${JSON.stringify(condition.value)}`;
+    case "greaterThan":
+      return `${condition.column} > ${condition.value}`;
+    case "anyOf":
+      return `any of (${condition.conditions
+        .map((c) => describeCondition(c))
+        .join("; ")})`;
+    case "allOf":
+      return `all of (${condition.conditions
+        .map((c) => describeCondition(c))
+        .join("; ")})`;
+    case "weightRange":
+      return describeRange("weight", condition.min, condition.max);
+    case "scoreRange":
+      return describeRange(
+        `${condition.score} score`,
+        condition.min,
+        condition.max
+      );
+    case "dormant":
+      return "dormant";
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Minimal schema definitions and validation for user-supplied configuration
+ * and inventory files
+ */
+
+/**
+ * Schema node describing the expected shape of a value
+ */
+export type Schema =
+  | { type: "number"; minimum?: number; integer?: boolean }
+  | { type: "boolean" }
+  | { type: "string"; enum?: readonly string[]; minLength?: number }
+  | { type: "scalar"; nullable?: boolean }
+  | { type: "array"; items: Schema; minItems?: number }
+  | { type: "object"; properties: Record<string, Schema>; required?: string[] }
+  | { type: "record"; values: Schema }
+  | {
+      type: "union";
+      discriminator: string;
+      variants: Record<string, Schema>;
+    };
+
+/**
+ * Describe the type of a value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Build the dotted path of a child key
+ */
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Check whether a value is a plain (non-array) object
+ */
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a value against a schema
+ * @param value - Value to validate
+ * @param schema - Schema to validate against
+ * @param path - Dotted path of the value, used in error messages
+ * @returns List of validation errors (empty when the value is valid)
+ */
+export function validateSchema(
+  value: unknown,
+  schema: Schema,
+  path: string = ""
+): string[] {
+  const errors: string[] = [];
+  const label = path || "(root)";
+
+  switch (schema.type) {
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        errors.push(`${label}: expected a number but got ${describe(value)}`);
+      } else if (schema.integer && !Number.isInteger(value)) {
+        errors.push(`${label}: expected an integer but got ${value}`);
+      } else if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${label}: must be >= ${schema.minimum} (got ${value})`);
+      }
+      break;
+
+    case "boolean":
+      if (typeof value !== "boolean") {
+        errors.push(`${label}: expected a boolean but got ${describe(value)}`);
+      }
+      break;
+
+    case "string":
+      if (typeof value !== "string") {
+        errors.push(`${label}: expected a string but got ${describe(value)}`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(
+          `${label}: must be one of ${schema.enum.join(", ")} (got "${value}")`
+        );
+      } else if (
+        schema.minLength !== undefined &&
+        value.length < schema.minLength
+      ) {
+        errors.push(
+          `${label}: must be at least ${schema.minLength} character(s) long`
+        );
+      }
+      break;
+
+    case "scalar":
+      if (value === null && schema.nullable) {
+        break;
+      }
+      if (!["string", "number", "boolean"].includes(typeof value)) {
+        errors.push(
+          `${label}: expected ${
+            schema.nullable
+              ? "a string, number, boolean or null"
+              : "a string, number or boolean"
+          } but got ${describe(value)}`
+        );
+      }
+      break;
+
+    case "array":
+      if (!Array.isArray(value)) {
+        errors.push(`${label}: expected an array but got ${describe(value)}`);
+        break;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(
+          `${label}: must contain at least ${schema.minItems} item(s)`
+        );
+      }
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(item, schema.items, `${path}[${index}]`));
+      });
+      break;
+
+    case "object":
+      if (!isPlainObject(value)) {
+        errors.push(`${label}: expected an object but got ${describe(value)}`);
+        break;
+      }
+      for (const key of Object.keys(value)) {
+        const propertySchema = Object.hasOwn(schema.properties, key)
+          ? schema.properties[key]
+          : undefined;
+        if (!propertySchema) {
+          errors.push(
+            `${childPath(path, key)}: unknown key (allowed: ${Object.keys(
+              schema.properties
+            ).join(", ")})`
+          );
+          continue;
+        }
+        errors.push(
+          ...validateSchema(value[key], propertySchema, childPath(path, key))
+        );
+      }
+      for (const key of schema.required ?? []) {
+        if (!Object.hasOwn(value, key)) {
+          errors.push(`${childPath(path, key)}: required key is missing`);
+        }
+      }
+      break;
+
+    case "record":
+      if (!isPlainObject(value)) {
+        errors.push(`${label}: expected an object but got ${describe(value)}`);
+        break;
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        errors.push(
+          ...validateSchema(entry, schema.values, childPath(path, key))
+        );
+      }
+      break;
+
+    case "union": {
+      if (!isPlainObject(value)) {
+        errors.push(`${label}: expected an object but got ${describe(value)}`);
+        break;
+      }
+      const tag = value[schema.discriminator];
+      const variant =
+        typeof tag === "string" && Object.hasOwn(schema.variants, tag)
+          ? schema.variants[tag]
+          : undefined;
+      if (!variant) {
+        errors.push(
+          `${childPath(
+            path,
+            schema.discriminator
+          )}: must be one of ${Object.keys(schema.variants).join(
+            ", "
+          )} (got ${JSON.stringify(tag)})`
+        );
+        break;
+      }
+      errors.push(...validateSchema(value, variant, path));
+      break;
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,127 @@
+/**
+ * Feature scoring: turns a detected feature and its unit count into weight
+ * points according to the configured scaling mode
+ */
+
+import { RegisteredFeature } from "./features.js";
+import {
+  AnalysisConfig,
+  FeatureScore,
+  NormalizedRepository,
+  WeightScaling,
+} from "./types.js";
+
+const FLAT_SCALING: WeightScaling = { mode: "flat" };
+
+/**
+ * Round points to two decimal places
+ */
+export function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
+
+/**
+ * Apply an optional cap to a number of points
+ */
+function applyCap(points: number, cap: number | undefined): number {
+  return cap === undefined ? points : Math.min(points, cap);
+}
+
+/**
+ * Get the scaling mode configured for a feature
+ */
+export function getFeatureScaling(
+  feature: RegisteredFeature,
+  config: AnalysisConfig
+): WeightScaling {
+  return config.SCALING[feature.key] ?? FLAT_SCALING;
+}
+
+/**
+ * Check whether a feature is scored under the configuration
+ */
+export function isFeatureEnabled(
+  feature: RegisteredFeature,
+  config: AnalysisConfig
+): boolean {
+  return config.ENABLED_FEATURES[feature.key];
+}
+
+/**
+ * Score a feature for a repository
+ * @returns The feature score, or undefined when the feature is disabled or
+ * not present
+ */
+export function scoreFeature(
+  feature: RegisteredFeature,
+  repo: NormalizedRepository,
+  config: AnalysisConfig
+): FeatureScore | undefined {
+  if (!isFeatureEnabled(feature, config) || !feature.detect(repo)) {
+    return undefined;
+  }
+
+  const units = feature.measure ? feature.measure(repo) : 1;
+  const weight = config.WEIGHTS[feature.key];
+  const scaling = getFeatureScaling(feature, config);
+
+  switch (scaling.mode) {
+    case "flat":
+      return { units, points: weight, rule: "flat" };
+
+    case "perUnit": {
+      const uncapped = weight * units;
+      const points = roundPoints(applyCap(uncapped, scaling.cap));
+      return {
+        units,
+        points,
+        rule:
+          scaling.cap !== undefined && points < roundPoints(uncapped)
+            ? `${units} x ${weight}, capped at ${scaling.cap}`
+            : `${units} x ${weight}`,
+      };
+    }
+
+    case "logarithmic": {
+      const uncapped = weight * Math.log2(units + 1);
+      const points = roundPoints(applyCap(uncapped, scaling.cap));
+      return {
+        units,
+        points,
+        rule:
+          scaling.cap !== undefined && points < roundPoints(uncapped)
+            ? `log2(${units} + 1) x ${weight}, capped at ${scaling.cap}`
+            : `log2(${units} + 1) x ${weight}`,
+      };
+    }
+
+    case "tiers": {
+      const tier = scaling.tiers.find(
+        (t) => units >= t.min && (t.max === undefined || units <= t.max)
+      );
+      if (!tier) {
+        return { units, points: 0, rule: "no matching tier" };
+      }
+      const range =
+        tier.max === undefined ? `${tier.min}+` : `${tier.min}-${tier.max}`;
+      return { units, points: tier.weight, rule: `tier ${range}` };
+    }
+  }
+}
+
+/**
+ * Format a feature's reason, annotated with its scoring when the feature
+ * uses count-scaled weights
+ */
+export function formatFeatureReason(
+  feature: RegisteredFeature,
+  repo: NormalizedRepository,
+  score: FeatureScore,
+  config: AnalysisConfig
+): string {
+  const reason = feature.reason(repo);
+  if (getFeatureScaling(feature, config).mode === "flat") {
+    return reason;
+  }
+  return `${reason} [${score.rule}: +${score.points}]`;
+}
@@ -0,0 +1,280 @@
+/**
+ * Streaming helpers: bounded-memory sorted spools (an external merge sort over
+ * temporary run files), line-by-line file reading and incremental, atomic file
+ * writing
+ */
+
+import {
+  closeSync,
+  createWriteStream,
+  openSync,
+  renameSync,
+  rmSync,
+  writeSync,
+} from "fs";
+import { open } from "fs/promises";
+import { once } from "events";
+import { basename, dirname, join } from "path";
+import { StringDecoder } from "string_decoder";
+
+/**
+ * Characters of output a spool keeps in memory before sorting its lines into
+ * a run file
+ */
+const DEFAULT_BUFFER_LIMIT = 4 * 1024 * 1024;
+
+/**
+ * Bytes read from a file at a time when reading it line by line
+ */
+const READ_BLOCK_SIZE = 64 * 1024;
+
+/**
+ * Sort key of a spooled line; strings sort with localeCompare, numbers
+ * ascending (negate a number to sort it descending)
+ */
+export type SpoolKey = (string | number)[];
+
+/**
+ * A spooled output line with its sort key
+ */
+interface SpoolEntry {
+  key: SpoolKey;
+  line: string;
+}
+
+/**
+ * Output lines collected while streaming and replayed in sorted order.
+ * Lines are buffered up to the buffer limit, then sorted and written to a run
+ * file in the spool directory, so memory stays bounded by the buffer limit.
+ */
+export interface SortedSpool {
+  directory: string;
+  name: string;
+  bufferLimit: number;
+  buffer: SpoolEntry[];
+  bufferedChars: number;
+  runs: string[];
+}
+
+/**
+ * Create an empty spool
+ * @param directory - Temporary directory for run files
+ * @param name - Spool name, used for its run file names
+ * @param bufferLimit - Characters buffered in memory before writing a run
+ */
+export function createSpool(
+  directory: string,
+  name: string,
+  bufferLimit: number = DEFAULT_BUFFER_LIMIT
+): SortedSpool {
+  return {
+    directory,
+    name,
+    bufferLimit,
+    buffer: [],
+    bufferedChars: 0,
+    runs: [],
+  };
+}
+
+/**
+ * Collator for string keys (the same ordering as String.localeCompare)
+ */
+const collator = new Intl.Collator();
+
+/**
+ * Compare two sort keys
+ */
+export function compareKeys(a: SpoolKey, b: SpoolKey): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const left = a[i] ?? "";
+    const right = b[i] ?? "";
+    const order =
+      typeof left === "number" && typeof right === "number"
+        ? left - right
+        : collator.compare(String(left), String(right));
+    if (order !== 0) {
+      return order;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Sort the buffered lines and write them to a new run file
+ */
+function flushSpool(spool: SortedSpool): void {
+  const runPath = join(
+    spool.directory,
+    `${spool.name}-${spool.runs.length}.ndjson`
+  );
+  const sorted = spool.buffer.sort((a, b) => compareKeys(a.key, b.key));
+  const run = openSync(runPath, "w");
+  try {
+    for (const entry of sorted) {
+      writeSync(run, JSON.stringify(entry) + "\n");
+    }
+  } finally {
+    closeSync(run);
+  }
+  spool.runs.push(runPath);
+  spool.buffer = [];
+  spool.bufferedChars = 0;
+}
+
+/**
+ * Add a line to a spool
+ */
+export function addToSpool(
+  spool: SortedSpool,
+  key: SpoolKey,
+  line: string
+): void {
+  spool.buffer.push({ key, line });
+  spool.bufferedChars += line.length;
+  if (spool.bufferedChars >= spool.bufferLimit) {
+    flushSpool(spool);
+  }
+}
+
+/**
+ * Remove the carriage return of a CRLF line ending
+ */
+function stripCarriageReturn(line: string): string {
+  return line.endsWith("\r") ? line.slice(0, -1) : line;
+}
+
+/**
+ * Read the lines of a text file in order, one block at a time, so memory use
+ * does not depend on the size of the file. Every line is yielded, including
+ * empty ones, without its line terminator.
+ */
+export async function* readLines(filePath: string): AsyncGenerator<string> {
+  const file = await open(filePath, "r");
+  const decoder = new StringDecoder("utf-8");
+  const block = Buffer.alloc(READ_BLOCK_SIZE);
+  let pending = "";
+
+  try {
+    for (;;) {
+      const { bytesRead } = await file.read(block, 0, block.length);
+      if (bytesRead === 0) {
+        break;
+      }
+      const lines = (
+        pending + decoder.write(block.subarray(0, bytesRead))
+      ).split("\n");
+      pending = lines.pop() ?? "";
+      for (const line of lines) {
+        yield stripCarriageReturn(line);
+      }
+    }
+    pending += decoder.end();
+    if (pending) {
+      yield stripCarriageReturn(pending);
+    }
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Read the entries of a run file in order
+ */
+async function* readRun(runPath: string): AsyncGenerator<SpoolEntry> {
+  for await (const line of readLines(runPath)) {
+    if (line) {
+      yield JSON.parse(line) as SpoolEntry;
+    }
+  }
+}
+
+/**
+ * Replay a spool's lines in sorted order. Lines with equal keys keep the
+ * order they were added in.
+ */
+export async function* drainSpool(spool: SortedSpool): AsyncGenerator<string> {
+  // Everything fits in memory: no run files to merge
+  if (spool.runs.length === 0) {
+    const sorted = spool.buffer.sort((a, b) => compareKeys(a.key, b.key));
+    for (const entry of sorted) {
+      yield entry.line;
+    }
+    return;
+  }
+
+  if (spool.buffer.length > 0) {
+    flushSpool(spool);
+  }
+
+  // Merge the sorted runs; ties go to the earlier run to keep insertion order
+  const runs = spool.runs.map((runPath) => readRun(runPath));
+  const heads = await Promise.all(runs.map((run) => run.next()));
+  for (;;) {
+    let next = -1;
+    heads.forEach((head, index) => {
+      const current = heads[next];
+      if (
+        !head.done &&
+        (!current ||
+          current.done ||
+          compareKeys(head.value.key, current.value.key) < 0)
+      ) {
+        next = index;
+      }
+    });
+
+    const head = heads[next];
+    if (!head || head.done) {
+      return;
+    }
+    yield head.value.line;
+    heads[next] = await runs[next]!.next();
+  }
+}
+
+/**
+ * Write a file atomically: the content is written to a temporary file next to
+ * it, which replaces the file only once it is complete, so a failed run never
+ * leaves a truncated file behind
+ * @param write - Writes the content to the path it is given
+ */
+export async function writeFileAtomically(
+  filePath: string,
+  write: (tempPath: string) => Promise<void>
+): Promise<void> {
+  const tempPath = join(
+    dirname(filePath),
+    `.${basename(filePath)}.${process.pid}.tmp`
+  );
+  try {
+    await write(tempPath);
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Write a file from a sequence of text chunks without holding the whole file
+ * in memory
+ */
+export async function writeStreamedFile(
+  filePath: string,
+  chunks: Iterable<string> | AsyncIterable<string>
+): Promise<void> {
+  await writeFileAtomically(filePath, async (tempPath) => {
+    const output = createWriteStream(tempPath, "utf-8");
+    try {
+      for await (const chunk of chunks) {
+        if (!output.write(chunk)) {
+          await once(output, "drain");
+        }
+      }
+    } finally {
+      output.end();
+    }
+    await once(output, "finish");
+  });
+}
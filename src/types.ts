@@ -3,6 +3,8 @@
  * Refactored to work with a single repository_analysis_all.csv file
  */
 
+import type { FeatureFlags, FeatureKey } from "./features.js";
+
 /**
  * Interface for the unified repository analysis data from repository_analysis_all.csv
  */
@@ -52,38 +54,240 @@ export interface RepositoryAnalysis {
 }
 
 /**
- * Interface for cohort analysis results
+ * Location of a repository row in its input file
+ */
+export interface RowSource {
+  file: string;
+  // 1-based line number of the row (a CSV header is line 1), or the 1-based
+  // record number in a JSON array
+  row: number;
+}
+
+/**
+ * Repository analysis row with typed values, produced once from the raw CSV
+ * row by the normalization step. Counts are numbers, flags are booleans and
+ * disk usage is a size in KB.
+ */
+export interface NormalizedRepository {
+  source: RowSource;
+  // Other input rows for the same repository, resolved into this one by the
+  // duplicate policy
+  duplicates: RowSource[];
+  // Usage details joined from the optional detail files
+  details: RepositoryDetails;
+  // Columns only found in the legacy ghec-analysis format, when read from it
+  legacy?: LegacyRepositoryFields;
+  // Dates read from the optional activity columns
+  activity: ActivityDates;
+  Enterprise: string;
+  Org_Name: string;
+  Repo_Name: string;
+  isArchived: boolean;
+  has_external_collaborators: boolean;
+  issues_linked_to_projects: number;
+  unique_projects_linked_by_issues: number;
+  projects_linked_to_repo: number;
+  app_installations: number;
+  "repository-custom-properties": number;
+  "repository-forks": number;
+  "repository-rulesets": number;
+  watchers: number;
+  "repository-code-scanning-analyses": number;
+  "repository-webhooks": number;
+  "repository-code-scanning-alerts": number;
+  "repository-secret-scanning-alerts": number;
+  "repository-actions-workflow-runs": number;
+  "repository-code-scanning-default-setup": number;
+  "repository-dependabot-alerts": number;
+  "repository-packages": number;
+  "repository-releases-gt-5gb": number;
+  "repository-disk-usage": number;
+  "repository-deployments": number;
+  "repository-environments": number;
+  "git-lfs-objects": number;
+  "repository-actions-secrets": number;
+  "repository-actions-self-hosted-runners": number;
+  "repository-dependabot-secrets": number;
+  "repository-actions-variables": number;
+  "git-submodules": number;
+  "repository-discussions": number;
+  "repository-deploy-keys": number;
+  "repository-pages-customdomain": number;
+  "repository-pinned-issues": number;
+  has_unmigratable: boolean;
+  has_maven_packages: boolean;
+  maven_package_count: number;
+  has_codespaces: boolean;
+  codespace_count: number;
+  codespace_user_count: number;
+  has_macos_runners: boolean;
+}
+
+/**
+ * Columns of the legacy ghec-analysis inventory with no counterpart in
+ * repository_analysis_all.csv, normalized like the current columns. Dates are
+ * kept as written.
+ */
+export interface LegacyRepositoryFields {
+  Is_Empty: boolean;
+  Last_Push: string;
+  Last_Update: string;
+  isFork: boolean;
+  Repo_Size_mb: number;
+  Record_Count: number;
+  Collaborator_Count: number;
+  Protected_Branch_Count: number;
+  PR_Review_Count: number;
+  Milestone_Count: number;
+  Issue_Count: number;
+  PR_Count: number;
+  PR_Review_Comment_Count: number;
+  Commit_Comment_Count: number;
+  Issue_Comment_Count: number;
+  Issue_Event_Count: number;
+  Release_Count: number;
+  Project_Count: number;
+  Branch_Count: number;
+  Tag_Count: number;
+  Discussion_Count: number;
+  Has_Wiki: boolean;
+  Full_URL: string;
+  Migration_Issue: boolean;
+  Created: string;
+  "repository-releases": number;
+}
+
+/**
+ * Optional activity columns: read from the legacy format, and from the
+ * current format when an export adds them
+ */
+export type ActivityColumn = "Last_Push" | "Created";
+
+/**
+ * Activity dates of a repository (YYYY-MM-DD), when known
+ */
+export interface ActivityDates {
+  lastPush?: string;
+  created?: string;
+}
+
+/**
+ * Activity of a repository at the reference date of the analysis
+ */
+export interface ActivityAssessment {
+  // Last push date, or the creation date of a repository never pushed to
+  lastActivity?: string;
+  // Whole days from the last activity to the reference date
+  daysInactive?: number;
+  // 0-100 from recency, workflow runs and watchers (higher = more active)
+  activityScore: number;
+  // No activity for at least ACTIVITY.DORMANT_AFTER_DAYS
+  dormant: boolean;
+}
+
+/**
+ * Input column that rules can test and diagnostics can name: a current
+ * inventory column or a legacy-only column
+ */
+export type InputColumn =
+  | keyof RepositoryAnalysis
+  | keyof LegacyRepositoryFields;
+
+/**
+ * Maven packages of a repository, summarized from maven-packages.csv
+ */
+export interface MavenPackageSummary {
+  packageCount: number;
+  // Size of all versions of the packages, in bytes
+  totalSizeBytes: number;
+  // Most recent publish date (YYYY-MM-DD), when one could be parsed
+  lastPublished?: string;
+}
+
+/**
+ * Codespaces of a repository, summarized from codespaces-usage.csv
+ */
+export interface CodespacesUsageSummary {
+  codespaceCount: number;
+  // Distinct codespace owners
+  userCount: number;
+  // Most recent use (YYYY-MM-DD), when one could be parsed
+  lastUsed?: string;
+}
+
+/**
+ * macOS runner usage of a repository, summarized from macos-runners.csv
+ */
+export interface MacOsRunnerSummary {
+  totalMinutes: number;
+  workflowRuns: number;
+  // Distinct workflows that ran on macOS runners
+  workflowCount: number;
+}
+
+/**
+ * Usage details joined to a repository from the optional detail files
+ */
+export interface RepositoryDetails {
+  maven?: MavenPackageSummary;
+  codespaces?: CodespacesUsageSummary;
+  macosRunners?: MacOsRunnerSummary;
+}
+
+/**
+ * How rows for the same repository (Enterprise/Org_Name/Repo_Name) across the
+ * input files are resolved: last-wins keeps the row read last, max keeps the
+ * largest value of each column, error fails the run
+ */
+export type DuplicatePolicy = "last-wins" | "max" | "error";
+
+/**
+ * Input cell that could not be parsed; the normalized row holds a fallback
+ * value (0 or false) in its place. Cells that were parsed but are written in
+ * a nonstandard way are recorded as accepted.
  */
-export interface CohortDetail {
+export interface CellDiagnostic extends RowSource {
+  column: InputColumn;
+  value: string;
+  problem: string;
+  // Set when the value was read as written and no fallback was used
+  accepted?: true;
+}
+
+/**
+ * Interface for the weight a single feature contributed to a repository
+ */
+export interface WeightContribution {
+  feature: FeatureKey;
+  // Source column values the feature was derived from
+  rawValue: string;
+  units: number;
+  // Scaling rule that fired (e.g. "flat", "tier 6-20")
+  rule: string;
+  points: number;
+  axis: ScoreAxis;
+}
+
+/**
+ * Interface for cohort analysis results (one HAS_* flag per registered feature)
+ */
+export interface CohortDetail extends FeatureFlags {
   repositoryName: string;
   organizationName: string;
   enterpriseName: string;
   cohort: string;
+  secondaryCohorts: string[];
   cohortWeight: number;
   migrationWeight: number;
+  complexityScore: number;
+  gapScore: number;
   migrationReasons: string;
   summary: string;
   featureGapCount: number;
-  HAS_APP_INSTALLATIONS: boolean;
-  HAS_GIT_LFS_OBJECTS: boolean;
-  HAS_PACKAGES: boolean;
-  HAS_PROJECTS: boolean;
-  HAS_CUSTOM_PROPERTIES: boolean;
-  HAS_RULESETS: boolean;
-  HAS_SECRETS: boolean;
-  HAS_ENVIRONMENTS: boolean;
-  HAS_SELF_HOSTED_RUNNERS: boolean;
-  HAS_WEBHOOKS: boolean;
-  HAS_DISCUSSIONS: boolean;
-  HAS_DEPLOY_KEYS: boolean;
-  HAS_PAGES_CUSTOM_DOMAIN: boolean;
-  HAS_RELEASES_LARGE: boolean;
-  HAS_CODESPACES: boolean;
-  HAS_MAVEN_PACKAGES: boolean;
-  HAS_MACOS_RUNNERS: boolean;
-  HAS_IS_ARCHIVED: boolean;
-  HAS_EXTERNAL_COLLABORATORS: boolean;
-  HAS_UNMIGRATABLE: boolean;
+  weightBreakdown: WeightContribution[];
+  activity: ActivityAssessment;
+  // Legacy-only columns of repositories read from the ghec-analysis format
+  legacy?: LegacyRepositoryFields;
 }
 
 /**
@@ -94,6 +298,8 @@ export interface CohortSummary {
   repositoryCount: number;
   totalWeight: number;
   averageWeight: number;
+  averageComplexityScore: number;
+  averageGapScore: number;
 }
 
 /**
@@ -102,9 +308,13 @@ export interface CohortSummary {
 export interface EnterpriseCohortSummary {
   enterpriseName: string;
   cohortSummaries: CohortSummary[];
+  // Repositories counted under their primary cohort and every secondary tag
+  tagSummaries: CohortSummary[];
   totalRepositories: number;
   totalWeight: number;
   averageWeight: number;
+  averageComplexityScore: number;
+  averageGapScore: number;
 }
 
 /**
@@ -115,8 +325,233 @@ export interface CohortResult {
   orgName: string;
   enterpriseName: string;
   cohort: string;
+  secondaryCohorts: string[];
   migrationWeight: number;
+  complexityScore: number;
+  gapScore: number;
   reasons: string[];
   summary: string;
   isArchived: boolean;
 }
+
+/**
+ * Classification axis: "complexity" for migratable features that need work,
+ * "gap" for features the target platform does not support
+ */
+export type ScoreAxis = "complexity" | "gap";
+
+/**
+ * Interface for the scores a repository is classified on
+ */
+export interface RepositoryScores {
+  migrationWeight: number;
+  complexityScore: number;
+  gapScore: number;
+  activityScore: number;
+  dormant: boolean;
+}
+
+/**
+ * Condition evaluated against a repository when matching cohort rules.
+ * Columns refer to RepositoryAnalysis fields and are evaluated on their
+ * normalized values; "equals" compares as a boolean, number or string
+ * depending on the type of `value`.
+ */
+export type RuleCondition =
+  | {
+      type: "equals";
+      column: InputColumn;
+      value: string | number | boolean;
+    }
+  | { type: "greaterThan"; column: InputColumn; value: number }
+  | { type: "anyOf"; conditions: RuleCondition[] }
+  | { type: "allOf"; conditions: RuleCondition[] }
+  | { type: "weightRange"; min?: number; max?: number }
+  | {
+      type: "scoreRange";
+      score: ScoreAxis | "activity";
+      min?: number;
+      max?: number;
+    }
+  | { type: "dormant" };
+
+/**
+ * Interface for a declarative cohort rule. Rules are evaluated in order and the
+ * first rule whose condition matches assigns its name as the primary cohort.
+ * Every other matching rule with a "tag" or "both" role is reported as a
+ * secondary cohort tag.
+ */
+export interface CohortRule {
+  name: string;
+  // "primary" (default) assigns cohorts only, "tag" only tags, "both" does either
+  role?: "primary" | "tag" | "both";
+  // Omitted condition matches every repository (catch-all rule)
+  when?: RuleCondition;
+  // Supports {cohort}, {weight}, {complexityScore}, {gapScore},
+  // {activityScore} and {reasonCount} placeholders
+  summary?: string;
+}
+
+/**
+ * Interface for one step of a tiered weight (e.g. 1-5, 6-20, 21+)
+ */
+export interface WeightTier {
+  min: number;
+  // Omitted for the open-ended top tier
+  max?: number;
+  weight: number;
+}
+
+/**
+ * How a feature's weight scales with the number of units present.
+ * - flat: the feature weight once, whenever the feature is present
+ * - perUnit: the feature weight per unit, optionally capped
+ * - logarithmic: the feature weight times log2(units + 1), optionally capped
+ * - tiers: the weight of the tier containing the unit count
+ */
+export type WeightScaling =
+  | { mode: "flat" }
+  | { mode: "perUnit"; cap?: number }
+  | { mode: "logarithmic"; cap?: number }
+  | { mode: "tiers"; tiers: WeightTier[] };
+
+/**
+ * Interface for the points a single feature contributes to a repository
+ */
+export interface FeatureScore {
+  // Number of units of the feature present in the repository
+  units: number;
+  // Weight points added to the migration weight
+  points: number;
+  // Description of the scaling rule that produced the points
+  rule: string;
+}
+
+/**
+ * Interface for one band of a classification matrix axis. Bands are listed in
+ * ascending order; the last band has no upper bound.
+ */
+export interface MatrixBand {
+  name: string;
+  max?: number;
+}
+
+/**
+ * Interface for the complexity x gap classification matrix
+ */
+export interface ClassificationMatrix {
+  COMPLEXITY_BANDS: MatrixBand[];
+  GAP_BANDS: MatrixBand[];
+  // Cohort name per "<complexity band>/<gap band>" cell; unmapped cells use
+  // the cell key itself
+  COHORTS: Record<string, string>;
+}
+
+/**
+ * Interface for the analysis configuration (weights, thresholds and feature toggles)
+ */
+export interface AnalysisConfig {
+  WEIGHTS: Record<FeatureKey, number>;
+  // Whether each feature contributes weight and reasons
+  ENABLED_FEATURES: Record<FeatureKey, boolean>;
+  // Per-feature weight scaling; features without an entry use flat weights
+  SCALING: Partial<Record<FeatureKey, WeightScaling>>;
+  THRESHOLDS: {
+    CLEAN_REPO_MAX_WEIGHT: number;
+    LOW_COMPLEXITY_MAX_WEIGHT: number;
+    MEDIUM_COMPLEXITY_MAX_WEIGHT: number;
+  };
+  FEATURES: {
+    INCLUDE_ARCHIVED_IN_MAIN_ANALYSIS: boolean;
+    SEPARATE_MAVEN_COHORT: boolean;
+    SEPARATE_CODESPACE_COHORT: boolean;
+    SEPARATE_MACOS_COHORT: boolean;
+    SEPARATE_UNMIGRATABLE_COHORT: boolean;
+    MATRIX_CLASSIFICATION: boolean;
+    SEPARATE_DORMANT_COHORT: boolean;
+  };
+  ACTIVITY: {
+    // Days without activity after which a repository is dormant
+    DORMANT_AFTER_DAYS: number;
+    // Smallest migration weight of a dormant repository tagged
+    // ARCHIVE_THEN_MIGRATE
+    ARCHIVE_THEN_MIGRATE_MIN_WEIGHT: number;
+    // Reference date (YYYY-MM-DD) activity is measured at (default: today)
+    AS_OF?: string;
+  };
+  MARKDOWN: {
+    // Most complex repositories listed per enterprise
+    TOP_COMPLEX_PER_ENTERPRISE: number;
+    // Repositories listed per cohort; the rest are only counted (0 lists all)
+    MAX_REPOSITORIES_PER_COHORT: number;
+    // Lists with more rows than this are collapsed (0 never collapses)
+    COLLAPSE_AFTER: number;
+  };
+  CSV: {
+    // Field delimiter, a single character
+    DELIMITER: string;
+    // Start each file with a UTF-8 byte order mark (helps Excel detect UTF-8)
+    BOM: boolean;
+    // Record separator
+    LINE_ENDING: "LF" | "CRLF";
+    // Also write the combined files whose tables are separated by "===" banners
+    COMBINED_FILES: boolean;
+  };
+  // Used instead of the separate gap cohorts and weight bands when
+  // FEATURES.MATRIX_CLASSIFICATION is on
+  MATRIX: ClassificationMatrix;
+  // Replaces the default rule set built from THRESHOLDS and FEATURES when set
+  RULES?: CohortRule[];
+}
+
+/**
+ * Format of an input inventory file
+ */
+export type InputFileFormat = "csv" | "json" | "ndjson";
+
+/**
+ * Unit of a size value
+ */
+export type SizeUnit = "B" | "KB" | "MB" | "GB" | "TB";
+
+/**
+ * Inventory column a source column is read as
+ */
+export interface ColumnMappingTarget {
+  column: keyof RepositoryAnalysis | ActivityColumn;
+  // Unit of plain numbers in the source column, converted to the column's
+  // unit (size columns only)
+  unit?: SizeUnit;
+}
+
+/**
+ * Mapping of source column names, as written in an export, to inventory
+ * columns
+ */
+export type ColumnMapping = Record<string, ColumnMappingTarget>;
+
+/**
+ * How input header mismatches are handled: strict fails the run, lenient
+ * warns and continues
+ */
+export type HeaderValidationMode = "strict" | "lenient";
+
+/**
+ * An unexpected input column that looks like a misspelling of an expected one
+ */
+export interface HeaderNearMiss {
+  found: string;
+  expected: string;
+}
+
+/**
+ * Result of comparing input headers with the expected columns
+ */
+export interface HeaderValidationReport {
+  // Expected columns absent from the input
+  missing: string[];
+  // Input columns that are not expected
+  unexpected: string[];
+  // Unexpected columns paired with the missing column they probably mean
+  nearMisses: HeaderNearMiss[];
+}
@@ -0,0 +1,160 @@
+/**
+ * Value parsing helpers for raw repository analysis cells. Each parser returns
+ * the parsed value, or a fallback value with a description of the problem.
+ */
+
+/**
+ * Result of parsing a single cell
+ */
+export interface ParsedCell<T> {
+  value: T;
+  // Set when the cell could not be parsed and value is a fallback
+  problem?: string;
+  // Set when the cell was parsed but is written in a nonstandard way
+  notice?: string;
+}
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0"]);
+
+/**
+ * Boolean spellings read without a notice
+ */
+const STANDARD_BOOLEANS = new Set(["true", "false", "TRUE", "FALSE"]);
+
+/**
+ * Plain decimal numbers, optionally negative. Other forms Number() accepts,
+ * such as "1e3", "0x1F" or "Infinity", are not read as numbers.
+ */
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Size units accepted in size columns, in KB
+ */
+const SIZE_UNITS_KB: Record<string, number> = {
+  b: 1 / 1024,
+  kb: 1,
+  mb: 1024,
+  gb: 1024 * 1024,
+  tb: 1024 * 1024 * 1024,
+};
+
+/**
+ * Parse a non-negative integer count; empty cells count as 0
+ */
+export function parseCount(raw: string | undefined): ParsedCell<number> {
+  const value = (raw ?? "").trim().replace(/,/g, "");
+  if (value === "") {
+    return { value: 0 };
+  }
+
+  const num = Number(value);
+  if (!NUMBER_PATTERN.test(value) || !Number.isFinite(num)) {
+    return { value: 0, problem: "not a number" };
+  }
+  if (num < 0) {
+    return { value: 0, problem: "negative count" };
+  }
+  if (!Number.isInteger(num)) {
+    return { value: Math.floor(num), problem: "not a whole number" };
+  }
+  return { value: num };
+}
+
+/**
+ * Parse a boolean flag (true/false, yes/no, y/n, 1/0 in any case); empty
+ * cells count as false. Spellings other than true/false in lower or upper
+ * case are read with a notice.
+ */
+export function parseBoolean(raw: string | undefined): ParsedCell<boolean> {
+  const written = (raw ?? "").trim();
+  const value = written.toLowerCase();
+  const notice =
+    value === "" || STANDARD_BOOLEANS.has(written)
+      ? {}
+      : { notice: "nonstandard boolean" };
+  if (value === "" || FALSE_VALUES.has(value)) {
+    return { value: false, ...notice };
+  }
+  if (TRUE_VALUES.has(value)) {
+    return { value: true, ...notice };
+  }
+  return { value: false, problem: "not a boolean" };
+}
+
+/**
+ * Parse a setting reported either as a flag or as a count (flags become 1 or 0)
+ */
+export function parseFlagOrCount(raw: string | undefined): ParsedCell<number> {
+  const value = (raw ?? "").trim().toLowerCase();
+  if (TRUE_VALUES.has(value)) {
+    return { value: 1 };
+  }
+  if (FALSE_VALUES.has(value)) {
+    return { value: 0 };
+  }
+  return parseCount(raw);
+}
+
+/**
+ * Parse a size in KB. Plain numbers are KB; values with a B, KB, MB, GB or TB
+ * unit (e.g. "12 KB", "1.5GB") are converted. Empty cells count as 0.
+ */
+export function parseSizeKb(raw: string | undefined): ParsedCell<number> {
+  const value = (raw ?? "").trim().replace(/,/g, "");
+  if (value === "") {
+    return { value: 0 };
+  }
+
+  const match = /^(-?\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(value);
+  if (!match) {
+    return { value: 0, problem: "not a size" };
+  }
+  const unit = (match[2] || "kb").toLowerCase();
+  const factor = SIZE_UNITS_KB[unit];
+  if (factor === undefined) {
+    return { value: 0, problem: `unknown size unit "${match[2]}"` };
+  }
+  const size = Number(match[1]) * factor;
+  if (size < 0) {
+    return { value: 0, problem: "negative size" };
+  }
+  return { value: size };
+}
+
+/**
+ * Parse a non-negative decimal number; empty cells count as 0
+ */
+export function parseDecimal(raw: string | undefined): ParsedCell<number> {
+  const value = (raw ?? "").trim().replace(/,/g, "");
+  if (value === "") {
+    return { value: 0 };
+  }
+
+  const num = Number(value);
+  if (!NUMBER_PATTERN.test(value) || !Number.isFinite(num)) {
+    return { value: 0, problem: "not a number" };
+  }
+  if (num < 0) {
+    return { value: 0, problem: "negative number" };
+  }
+  return { value: num };
+}
+
+/**
+ * Parse a date or timestamp into a YYYY-MM-DD date; empty cells are unknown
+ */
+export function parseDate(
+  raw: string | undefined
+): ParsedCell<string | undefined> {
+  const value = (raw ?? "").trim();
+  if (value === "") {
+    return { value: undefined };
+  }
+
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    return { value: undefined, problem: "not a date" };
+  }
+  return { value: new Date(time).toISOString().slice(0, 10) };
+}
@@ -0,0 +1,270 @@
+/**
+ * XLSX workbook export: the summaries and repository rows in one workbook
+ * with one sheet per view, each a single table with a frozen header row and
+ * an autofilter. Written with the exceljs streaming writer, so memory use does
+ * not grow with the number of repositories.
+ */
+
+import ExcelJS from "exceljs";
+import { CohortDetail, CohortSummary } from "./types.js";
+import { ReportSections } from "./report.js";
+import { writeFileAtomically } from "./stream.js";
+
+/**
+ * Value of a worksheet cell; null leaves the cell empty
+ */
+export type XlsxCell = string | number | boolean | null;
+
+/**
+ * One worksheet: a header row followed by the rows of the table
+ */
+export interface XlsxSheet {
+  name: string;
+  headers: string[];
+  rows: Iterable<XlsxCell[]> | AsyncIterable<XlsxCell[]>;
+}
+
+/**
+ * Longest sheet name Excel accepts
+ */
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Widest column set from its content, in characters
+ */
+const MAX_COLUMN_WIDTH = 60;
+
+/**
+ * Header row of the enterprise sheets
+ */
+export const ENTERPRISE_SHEET_HEADERS = [
+  "Repository Name",
+  "Organization",
+  "Cohort",
+  "Secondary Cohorts",
+  "Migration Weight",
+  "Complexity Score",
+  "Gap Score",
+  "Migration Reasons",
+  "Summary",
+];
+
+/**
+ * Header row of the cohort sheets
+ */
+export const COHORT_SHEET_HEADERS = [
+  "Repository Name",
+  "Organization",
+  "Enterprise",
+  "Secondary Cohorts",
+  "Migration Weight",
+  "Complexity Score",
+  "Gap Score",
+  "Migration Reasons",
+  "Summary",
+];
+
+/**
+ * Make a name valid and unique as a sheet name: characters Excel rejects are
+ * replaced, long names shortened and repeated names numbered
+ * @param used - Sheet names taken so far (lowercase); receives the result
+ */
+function uniqueSheetName(name: string, used: Set<string>): string {
+  const base =
+    name.replace(/[[\]:*?/\\]/g, "_").slice(0, MAX_SHEET_NAME_LENGTH) ||
+    "Sheet";
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Write a workbook with the given sheets, in order. Each sheet's rows are
+ * consumed before the next sheet is started.
+ */
+export async function writeXlsxWorkbook(
+  filePath: string,
+  sheets: Iterable<XlsxSheet> | AsyncIterable<XlsxSheet>
+): Promise<void> {
+  await writeFileAtomically(filePath, (tempPath) =>
+    writeWorkbook(tempPath, sheets)
+  );
+}
+
+/**
+ * Write the sheets of a workbook to a file
+ */
+async function writeWorkbook(
+  filePath: string,
+  sheets: Iterable<XlsxSheet> | AsyncIterable<XlsxSheet>
+): Promise<void> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    filename: filePath,
+    useStyles: true,
+    useSharedStrings: false,
+  });
+  const used = new Set<string>();
+
+  for await (const sheet of sheets) {
+    const worksheet = workbook.addWorksheet(uniqueSheetName(sheet.name, used), {
+      views: [{ state: "frozen", ySplit: 1 }],
+    });
+    worksheet.columns = sheet.headers.map((header) => ({
+      header,
+      width: Math.min(MAX_COLUMN_WIDTH, Math.max(10, header.length + 2)),
+    }));
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: 1, column: sheet.headers.length },
+    };
+
+    for await (const row of sheet.rows) {
+      worksheet.addRow(row).commit();
+    }
+    worksheet.commit();
+  }
+
+  await workbook.commit();
+}
+
+// =============================================================================
+// SHEETS
+// =============================================================================
+
+/**
+ * Cells of one row of a cohort summary table
+ */
+function cohortSummaryCells(summary: CohortSummary): XlsxCell[] {
+  return [
+    summary.cohortName,
+    summary.repositoryCount,
+    summary.totalWeight,
+    summary.averageWeight,
+    summary.averageComplexityScore,
+    summary.averageGapScore,
+  ];
+}
+
+/**
+ * Summary and Enterprise Overview sheets
+ */
+export function summarySheets(sections: ReportSections): XlsxSheet[] {
+  const cohorts = sections.cohortSummaries.map((summary) => summary.cohortName);
+  return [
+    {
+      name: "Summary",
+      headers: [
+        "Cohort",
+        "Repositories",
+        "Total Weight",
+        "Average Weight",
+        "Average Complexity Score",
+        "Average Gap Score",
+      ],
+      rows: sections.cohortSummaries.map(cohortSummaryCells),
+    },
+    {
+      name: "Enterprise Overview",
+      headers: [
+        "Enterprise",
+        "Repositories",
+        "Total Weight",
+        "Average Weight",
+        "Average Complexity Score",
+        "Average Gap Score",
+        ...cohorts,
+      ],
+      rows: sections.enterpriseSummaries.map((enterprise) => [
+        enterprise.enterpriseName,
+        enterprise.totalRepositories,
+        enterprise.totalWeight,
+        enterprise.averageWeight,
+        enterprise.averageComplexityScore,
+        enterprise.averageGapScore,
+        ...cohorts.map(
+          (cohort) =>
+            enterprise.cohortSummaries.find(
+              (summary) => summary.cohortName === cohort
+            )?.repositoryCount ?? 0
+        ),
+      ]),
+    },
+  ];
+}
+
+/**
+ * Format a repository as a line of its enterprise sheet, tagged with the
+ * enterprise so the lines can be grouped into sheets as they are replayed
+ */
+export function formatEnterpriseSheetLine(detail: CohortDetail): string {
+  return JSON.stringify([
+    detail.enterpriseName || "Unknown",
+    [
+      detail.repositoryName,
+      detail.organizationName,
+      detail.cohort,
+      detail.secondaryCohorts.join("; "),
+      detail.migrationWeight,
+      detail.complexityScore,
+      detail.gapScore,
+      detail.migrationReasons,
+      detail.summary,
+    ],
+  ]);
+}
+
+/**
+ * Format a repository as a line of its cohort sheet, tagged with the cohort
+ */
+export function formatCohortSheetLine(detail: CohortDetail): string {
+  return JSON.stringify([
+    detail.cohort,
+    [
+      detail.repositoryName,
+      detail.organizationName,
+      detail.enterpriseName,
+      detail.secondaryCohorts.join("; "),
+      detail.migrationWeight,
+      detail.complexityScore,
+      detail.gapScore,
+      detail.migrationReasons,
+      detail.summary,
+    ],
+  ]);
+}
+
+/**
+ * Split lines tagged with a group name into one sheet per group
+ * @param lines - Lines sorted by group (see formatEnterpriseSheetLine and
+ * formatCohortSheetLine)
+ */
+export async function* groupedSheets(
+  lines: AsyncIterable<string>,
+  headers: string[]
+): AsyncGenerator<XlsxSheet> {
+  const iterator = lines[Symbol.asyncIterator]();
+  let next = await iterator.next();
+
+  while (!next.done) {
+    const [group] = JSON.parse(next.value) as [string, XlsxCell[]];
+    async function* groupRows(): AsyncGenerator<XlsxCell[]> {
+      while (!next.done) {
+        const [rowGroup, cells] = JSON.parse(next.value) as [
+          string,
+          XlsxCell[]
+        ];
+        if (rowGroup !== group) {
+          return;
+        }
+        yield cells;
+        next = await iterator.next();
+      }
+    }
+    yield { name: group, headers, rows: groupRows() };
+  }
+}